@@ -1,9 +1,25 @@
 #!/bin/sh
 set -e
 
+# Escape a value for a quoted nginx string, then for the sed replacement.
+# nginx has no escape for "$" and would read it as a variable, so it becomes
+# ${tapo_dollar}, which the config defines as a literal "$".
+escape() {
+    printf '%s' "$1" | sed -e 's/[\\"]/\\&/g' -e 's/\$/${tapo_dollar}/g' -e 's/[\\|&]/\\&/g'
+}
+
+TAPO_PROXY_ENABLED=false
+if [ -n "${TAPO_USERNAME}" ] && [ -n "${TAPO_PASSWORD}" ]; then
+    TAPO_PROXY_ENABLED=true
+fi
+
 # Replace placeholders with actual environment variables
 sed -i "s|GO2RTC_API_URL_PLACEHOLDER|${GO2RTC_API_URL}|g" /etc/nginx/conf.d/default.conf
 sed -i "s|GO2RTC_AUTH_PLACEHOLDER|${GO2RTC_AUTH}|g" /etc/nginx/conf.d/default.conf
+sed -i "s|TAPO_API_URL_PLACEHOLDER|${TAPO_API_URL}|g" /etc/nginx/conf.d/default.conf
+sed -i "s|TAPO_USERNAME_PLACEHOLDER|$(escape "${TAPO_USERNAME}")|g" /etc/nginx/conf.d/default.conf
+sed -i "s|TAPO_PASSWORD_PLACEHOLDER|$(escape "${TAPO_PASSWORD}")|g" /etc/nginx/conf.d/default.conf
+sed -i "s|TAPO_PROXY_ENABLED_PLACEHOLDER|${TAPO_PROXY_ENABLED}|g" /etc/nginx/conf.d/default.conf
 
 # Start nginx
 exec nginx -g "daemon off;"
@@ -0,0 +1,187 @@
+import { ref, computed } from 'vue'
+import { vaultCrypto, type EncryptedVault, type VaultSecrets } from '@/services/vault'
+import type { VaultMode } from '@/types'
+
+const MODE_KEY = 'tapoVaultMode'
+const SESSION_SECRETS_KEY = 'tapoSecrets'
+const SESSION_VAULT_KEY = 'tapoVaultKey'
+const ENCRYPTED_KEY = 'tapoVault'
+
+// Same-origin prefix the nginx proxy forwards to gotapo-api with the
+// credentials from its environment
+export const TAPO_PROXY_URL = '/tapo'
+
+// Shared vault state
+const mode = ref<VaultMode>(loadMode())
+const secrets = ref<VaultSecrets>({})
+const isUnlocked = ref(false)
+const hasEncrypted = ref(!!localStorage.getItem(ENCRYPTED_KEY))
+const proxyAvailable = ref<boolean | null>(null)
+let key: CryptoKey | null = null
+
+const ready = restore()
+
+function loadMode(): VaultMode {
+    const saved = localStorage.getItem(MODE_KEY)
+    return saved === 'encrypted' || saved === 'proxy' ? saved : 'session'
+}
+
+function readEncrypted(): EncryptedVault | null {
+    try {
+        const saved = localStorage.getItem(ENCRYPTED_KEY)
+        return saved ? JSON.parse(saved) : null
+    } catch {
+        return null
+    }
+}
+
+async function restore() {
+    if (mode.value === 'session') {
+        try {
+            secrets.value = JSON.parse(sessionStorage.getItem(SESSION_SECRETS_KEY) || '{}')
+        } catch {
+            // Keep an empty vault
+        }
+        return
+    }
+
+    if (mode.value === 'encrypted') {
+        const raw = sessionStorage.getItem(SESSION_VAULT_KEY)
+        const vault = readEncrypted()
+        if (!raw || !vault) return
+        try {
+            key = await vaultCrypto.importKey(raw)
+            secrets.value = await vaultCrypto.decrypt(key, vault)
+            isUnlocked.value = true
+        } catch {
+            key = null
+            sessionStorage.removeItem(SESSION_VAULT_KEY)
+        }
+    }
+}
+
+async function persist() {
+    if (mode.value === 'session') {
+        sessionStorage.setItem(SESSION_SECRETS_KEY, JSON.stringify(secrets.value))
+    } else if (mode.value === 'encrypted') {
+        if (!key) throw new Error('Unlock the credential vault first')
+        const salt = readEncrypted()?.salt ?? vaultCrypto.newSalt()
+        localStorage.setItem(ENCRYPTED_KEY, JSON.stringify(await vaultCrypto.encrypt(key, salt, secrets.value)))
+        hasEncrypted.value = true
+    }
+}
+
+export function useCredentialVault() {
+    // Passwords cannot be read while an encrypted vault is locked
+    const isLocked = computed(() => mode.value === 'encrypted' && !isUnlocked.value)
+
+    function getSecret(name: string): string | undefined {
+        return secrets.value[name]
+    }
+
+    async function setSecret(name: string, value: string) {
+        if (mode.value === 'proxy') return
+        if (isLocked.value) throw new Error('Unlock the credential vault first')
+        secrets.value = { ...secrets.value, [name]: value }
+        await persist()
+    }
+
+    async function deleteSecret(name: string) {
+        if (!(name in secrets.value)) return
+        const { [name]: _removed, ...rest } = secrets.value
+        secrets.value = rest
+        await persist()
+    }
+
+    async function renameSecret(from: string, to: string) {
+        const value = secrets.value[from]
+        if (value === undefined || from === to) return
+        const { [from]: _removed, ...rest } = secrets.value
+        secrets.value = { ...rest, [to]: value }
+        await persist()
+    }
+
+    async function unlock(passphrase: string) {
+        const vault = readEncrypted()
+        if (!vault) throw new Error('No encrypted vault is stored in this browser')
+        const candidate = await vaultCrypto.deriveKey(passphrase, vault.salt)
+        try {
+            secrets.value = await vaultCrypto.decrypt(candidate, vault)
+        } catch {
+            throw new Error('Wrong passphrase')
+        }
+        key = candidate
+        isUnlocked.value = true
+        sessionStorage.setItem(SESSION_VAULT_KEY, await vaultCrypto.exportKey(candidate))
+    }
+
+    function lock() {
+        key = null
+        secrets.value = {}
+        isUnlocked.value = false
+        sessionStorage.removeItem(SESSION_VAULT_KEY)
+    }
+
+    // Switching keeps the current secrets, except for the proxy mode where the
+    // browser holds none. An encrypted vault has to be unlocked to switch away.
+    async function setMode(next: VaultMode, passphrase?: string) {
+        if (isLocked.value && next !== 'proxy') throw new Error('Unlock the credential vault first')
+
+        if (next === 'encrypted') {
+            if (!passphrase) throw new Error('A passphrase is required')
+            const salt = vaultCrypto.newSalt()
+            key = await vaultCrypto.deriveKey(passphrase, salt)
+            localStorage.setItem(ENCRYPTED_KEY, JSON.stringify(await vaultCrypto.encrypt(key, salt, secrets.value)))
+            sessionStorage.setItem(SESSION_VAULT_KEY, await vaultCrypto.exportKey(key))
+            hasEncrypted.value = true
+            isUnlocked.value = true
+        } else {
+            key = null
+            isUnlocked.value = false
+            localStorage.removeItem(ENCRYPTED_KEY)
+            sessionStorage.removeItem(SESSION_VAULT_KEY)
+            hasEncrypted.value = false
+        }
+
+        if (next === 'session') {
+            sessionStorage.setItem(SESSION_SECRETS_KEY, JSON.stringify(secrets.value))
+        } else {
+            sessionStorage.removeItem(SESSION_SECRETS_KEY)
+        }
+        if (next === 'proxy') secrets.value = {}
+
+        mode.value = next
+        localStorage.setItem(MODE_KEY, next)
+    }
+
+    // The nginx image answers /tapo-proxy with whether TAPO_USERNAME and
+    // TAPO_PASSWORD are set. Anything else (e.g. the Vite dev server's
+    // index.html fallback) means there is no proxy.
+    async function checkProxy(): Promise<boolean> {
+        try {
+            const response = await fetch(`${TAPO_PROXY_URL}-proxy`)
+            const data = response.ok ? await response.json() : null
+            proxyAvailable.value = data?.enabled === true
+        } catch {
+            proxyAvailable.value = false
+        }
+        return proxyAvailable.value
+    }
+
+    return {
+        mode,
+        isLocked,
+        hasEncrypted,
+        proxyAvailable,
+        isSupported: vaultCrypto.isSupported(),
+        ready,
+        getSecret,
+        setSecret,
+        deleteSecret,
+        renameSecret,
+        unlock,
+        lock,
+        setMode,
+        checkProxy,
+    }
+}
@@ -0,0 +1,249 @@
+import { ref, shallowRef, onScopeDispose } from 'vue'
+import { getLogWebSocketUrl } from '@/services/api'
+import { logsApi } from '@/services/logs'
+import { parseLogRecord } from '@/utils/logs'
+import type { LogEntry } from '@/types'
+
+export const LOG_BUFFER_SIZES = [1000, 5000, 10000, 50000]
+const DEFAULT_BUFFER_SIZE = 5000
+
+const RECONNECT_BASE_DELAY = 1000
+const RECONNECT_MAX_DELAY = 30000
+const VIEW_FLUSH_INTERVAL = 250
+const STORAGE_FLUSH_INTERVAL = 1000
+
+function loadBufferSize(): number {
+    const saved = Number(localStorage.getItem('logBufferSize'))
+    return LOG_BUFFER_SIZES.includes(saved) ? saved : DEFAULT_BUFFER_SIZE
+}
+
+// Live go2rtc log over /api/ws with reconnects, kept in an IndexedDB ring buffer
+export function useLogStream() {
+    const entries = shallowRef<LogEntry[]>([])
+    const isConnected = ref(false)
+    const isPaused = ref(false)
+    const pendingCount = ref(0)
+    const reconnectDelay = ref<number | null>(null)
+    const bufferSize = ref(loadBufferSize())
+    const storageError = ref<string | null>(null)
+
+    let ws: WebSocket | null = null
+    let stopped = false
+    let nextId = 1
+    let reconnectAttempt = 0
+    let reconnectTimer: number | null = null
+    let disconnectedAt: number | null = null
+
+    // Incoming entries wait here until the next view flush; while paused they stay
+    // here so the view holds still, but they are persisted regardless. Only the
+    // newest bufferSize are kept, as the view would drop the rest anyway.
+    let incoming: LogEntry[] = []
+    let unsaved: LogEntry[] = []
+    let viewTimer: number | null = null
+    let storageTimer: number | null = null
+    let savedSinceTrim = 0
+
+    // Records seen recently, so a server replaying its buffer after a reconnect
+    // doesn't duplicate them. The key is the whole record: distinct records
+    // may share a timestamp and message.
+    const seen = new Set<string>()
+    const seenOrder: string[] = []
+
+    function isDuplicate(entry: LogEntry): boolean {
+        const key = JSON.stringify([entry.level, entry.time, entry.message, entry.caller, entry.fields])
+        if (seen.has(key)) return true
+        seen.add(key)
+        seenOrder.push(key)
+        if (seenOrder.length > bufferSize.value) seen.delete(seenOrder.shift()!)
+        return false
+    }
+
+    function push(entry: LogEntry) {
+        entry.id = nextId++
+        incoming.push(entry)
+        if (incoming.length > bufferSize.value) incoming.splice(0, incoming.length - bufferSize.value)
+        unsaved.push(entry)
+        if (isPaused.value) pendingCount.value = incoming.length
+        viewTimer ??= window.setTimeout(flushView, VIEW_FLUSH_INTERVAL)
+        storageTimer ??= window.setTimeout(flushStorage, STORAGE_FLUSH_INTERVAL)
+    }
+
+    function flushView() {
+        viewTimer = null
+        if (isPaused.value || !incoming.length) return
+        entries.value = [...entries.value, ...incoming].slice(-bufferSize.value)
+        incoming = []
+    }
+
+    async function flushStorage() {
+        storageTimer = null
+        const batch = unsaved
+        unsaved = []
+        if (!batch.length) return
+
+        try {
+            await logsApi.append(batch)
+            savedSinceTrim += batch.length
+            if (savedSinceTrim >= bufferSize.value / 10) {
+                savedSinceTrim = 0
+                await logsApi.trim(bufferSize.value)
+            }
+            storageError.value = null
+        } catch (e) {
+            storageError.value = e instanceof Error ? e.message : 'Failed to store logs'
+        }
+    }
+
+    function handleMessage(event: MessageEvent) {
+        let value: unknown = event.data
+        try {
+            const data = JSON.parse(event.data)
+            if (data.type !== 'log') return
+            value = data.value
+        } catch {
+            // Not an envelope; keep the raw text as the message
+        }
+        if (value === undefined || value === null || value === '') return
+
+        const entry = parseLogRecord(value)
+        if (!isDuplicate(entry)) push(entry)
+    }
+
+    function recordGap() {
+        if (disconnectedAt === null) return
+        const now = Date.now()
+        const seconds = Math.round((now - disconnectedAt) / 1000)
+        push({
+            level: 'WARN',
+            time: new Date(disconnectedAt).toISOString(),
+            message: `Log connection lost for ${seconds}s, records from this period may be missing`,
+            fields: { reconnected: new Date(now).toISOString() },
+            gap: now - disconnectedAt,
+        })
+        disconnectedAt = null
+    }
+
+    function connect() {
+        stopped = false
+        const socket = new WebSocket(`${getLogWebSocketUrl()}?src=log`)
+        ws = socket
+
+        socket.onopen = () => {
+            isConnected.value = true
+            reconnectAttempt = 0
+            socket.send(JSON.stringify({ type: 'log' }))
+            recordGap()
+        }
+
+        socket.onmessage = handleMessage
+
+        // Ignore events from a socket that has already been replaced
+        socket.onclose = () => {
+            if (ws !== socket) return
+            isConnected.value = false
+            ws = null
+            if (stopped) return
+            disconnectedAt ??= Date.now()
+            scheduleReconnect()
+        }
+
+        socket.onerror = () => {
+            if (ws === socket) isConnected.value = false
+        }
+    }
+
+    function scheduleReconnect() {
+        reconnectAttempt++
+        const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** (reconnectAttempt - 1), RECONNECT_MAX_DELAY)
+        reconnectDelay.value = delay
+        reconnectTimer = window.setTimeout(() => {
+            reconnectTimer = null
+            reconnectDelay.value = null
+            connect()
+        }, delay)
+    }
+
+    function disconnect() {
+        stopped = true
+        if (reconnectTimer) {
+            clearTimeout(reconnectTimer)
+            reconnectTimer = null
+        }
+        reconnectDelay.value = null
+        const socket = ws
+        ws = null
+        socket?.close()
+        isConnected.value = false
+    }
+
+    function reconnectNow() {
+        disconnect()
+        connect()
+    }
+
+    async function start() {
+        try {
+            const stored = await logsApi.list()
+            const recent = stored.slice(-bufferSize.value)
+            recent.forEach(isDuplicate)
+            nextId = (stored[stored.length - 1]?.id ?? 0) + 1
+            entries.value = recent
+        } catch (e) {
+            storageError.value = e instanceof Error ? e.message : 'Failed to load stored logs'
+        }
+        connect()
+    }
+
+    function setPaused(paused: boolean) {
+        isPaused.value = paused
+        if (!paused) {
+            pendingCount.value = 0
+            flushView()
+        }
+    }
+
+    async function setBufferSize(size: number) {
+        bufferSize.value = size
+        localStorage.setItem('logBufferSize', String(size))
+        entries.value = entries.value.slice(-size)
+        try {
+            await logsApi.trim(size)
+        } catch (e) {
+            storageError.value = e instanceof Error ? e.message : 'Failed to trim stored logs'
+        }
+    }
+
+    async function clear() {
+        entries.value = []
+        incoming = []
+        unsaved = []
+        pendingCount.value = 0
+        try {
+            await logsApi.clear()
+        } catch (e) {
+            storageError.value = e instanceof Error ? e.message : 'Failed to clear stored logs'
+        }
+    }
+
+    onScopeDispose(() => {
+        disconnect()
+        if (viewTimer) clearTimeout(viewTimer)
+        if (storageTimer) clearTimeout(storageTimer)
+        flushStorage()
+    })
+
+    return {
+        entries,
+        isConnected,
+        isPaused,
+        pendingCount,
+        reconnectDelay,
+        bufferSize,
+        storageError,
+        start,
+        setPaused,
+        setBufferSize,
+        reconnectNow,
+        clear,
+    }
+}
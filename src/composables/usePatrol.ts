@@ -0,0 +1,234 @@
+import { ref } from 'vue'
+import { useTapo } from '@/composables/useTapo'
+import { lastManualMove } from '@/composables/usePtz'
+import { useAppStore } from '@/stores/app'
+
+export interface PatrolStop {
+    presetId: string
+    presetName: string
+    dwell: number           // seconds
+}
+
+export interface PatrolTour {
+    id: string
+    name: string
+    stops: PatrolStop[]
+    loop: boolean
+}
+
+export type PatrolPhase = 'moving' | 'dwelling' | 'paused'
+
+export interface PatrolRun {
+    stream: string
+    tour: PatrolTour        // copy taken at start, edits apply to the next run
+    index: number
+    lap: number
+    phase: PatrolPhase
+    dwellUntil: number      // while dwelling
+    remaining: number       // ms of dwell left at the current stop once it is reached
+    error: string | null
+}
+
+const TICK_MS = 500
+// A tour waits this long after the user's last manual move before resuming
+const MANUAL_IDLE_MS = 10_000
+
+// Tours of each camera, by stream name
+const tours = ref<Record<string, PatrolTour[]>>(loadTours())
+const runs = ref<Record<string, PatrolRun>>({})
+const now = ref(Date.now())
+// Bumped whenever a run changes course, so a late preset answer is ignored
+const moveTokens = new Map<string, number>()
+let timer: number | null = null
+
+function loadTours(): Record<string, PatrolTour[]> {
+    try {
+        const saved = localStorage.getItem('ptzTours')
+        if (saved) {
+            const parsed = JSON.parse(saved)
+            if (parsed && typeof parsed === 'object') return parsed
+        }
+    } catch {
+        // Start without tours
+    }
+    return {}
+}
+
+function persistTours() {
+    localStorage.setItem('ptzTours', JSON.stringify(tours.value))
+}
+
+function nextToken(stream: string): number {
+    const token = (moveTokens.get(stream) ?? 0) + 1
+    moveTokens.set(stream, token)
+    return token
+}
+
+function resolve(stream: string) {
+    const store = useAppStore()
+    const { resolveCamera, apiFor } = useTapo()
+    const camera = resolveCamera(stream, store.streams[stream])
+    const api = camera ? apiFor(camera) : null
+    return camera && api ? { camera, api } : null
+}
+
+function goToStop(stream: string) {
+    const run = runs.value[stream]
+    if (!run) return
+    const stop = run.tour.stops[run.index]!
+    const target = resolve(stream)
+    const token = nextToken(stream)
+    run.phase = 'moving'
+
+    if (!target) {
+        finish(stream, 'The camera is not reachable with the current credentials')
+        return
+    }
+
+    target.api.gotoPreset(target.camera.ip, stop.presetId)
+        .then(() => {
+            run.error = null
+        })
+        .catch(e => {
+            // Keep touring: the next stop may still work
+            run.error = `${stop.presetName}: ${e instanceof Error ? e.message : 'failed to move'}`
+        })
+        .finally(() => {
+            if (moveTokens.get(stream) !== token || runs.value[stream] !== run) return
+            run.phase = 'dwelling'
+            run.dwellUntil = Date.now() + run.remaining
+        })
+}
+
+function advance(stream: string) {
+    const run = runs.value[stream]
+    if (!run) return
+    if (run.index + 1 >= run.tour.stops.length) {
+        if (!run.tour.loop) {
+            finish(stream)
+            return
+        }
+        run.index = 0
+        run.lap++
+    } else {
+        run.index++
+    }
+    run.remaining = run.tour.stops[run.index]!.dwell * 1000
+    goToStop(stream)
+}
+
+function finish(stream: string, error?: string) {
+    const run = runs.value[stream]
+    if (!run) return
+    delete runs.value[stream]
+    nextToken(stream)
+    updateTimer()
+
+    const store = useAppStore()
+    if (error) {
+        store.showToast({ type: 'error', title: `Tour "${run.tour.name}" stopped`, message: `${stream}: ${error}` })
+    } else {
+        store.showToast({ type: 'info', title: `Tour "${run.tour.name}" finished`, message: stream })
+    }
+}
+
+function tick() {
+    now.value = Date.now()
+    for (const stream of Object.keys(runs.value)) {
+        const run = runs.value[stream]!
+        const target = resolve(stream)
+        const manual = target ? now.value - lastManualMove(target.camera) < MANUAL_IDLE_MS : false
+
+        if (manual) {
+            if (run.phase === 'dwelling') run.remaining = Math.max(0, run.dwellUntil - now.value)
+            if (run.phase !== 'paused') {
+                run.phase = 'paused'
+                nextToken(stream)
+            }
+        } else if (run.phase === 'paused') {
+            // The camera was moved away, go back to the stop and finish its dwell
+            goToStop(stream)
+        } else if (run.phase === 'dwelling' && now.value >= run.dwellUntil) {
+            advance(stream)
+        }
+    }
+}
+
+function updateTimer() {
+    const active = Object.keys(runs.value).length > 0
+    if (active && timer === null) {
+        timer = window.setInterval(tick, TICK_MS)
+    } else if (!active && timer !== null) {
+        clearInterval(timer)
+        timer = null
+    }
+}
+
+// Share of the current stop's dwell that has passed, 0..1
+export function dwellProgress(run: PatrolRun, at: number): number {
+    const total = (run.tour.stops[run.index]?.dwell ?? 0) * 1000
+    if (!total) return 1
+    const left = run.phase === 'dwelling' ? Math.max(0, run.dwellUntil - at) : run.remaining
+    return 1 - left / total
+}
+
+// Patrol tours: ordered presets with a dwell time each. Runs live outside any
+// component, so a tour keeps going while the app is open on another page.
+export function usePatrol() {
+    function toursFor(stream: string): PatrolTour[] {
+        return tours.value[stream] ?? []
+    }
+
+    function saveTour(stream: string, tour: PatrolTour) {
+        const list = toursFor(stream).filter(t => t.id !== tour.id)
+        const index = toursFor(stream).findIndex(t => t.id === tour.id)
+        list.splice(index >= 0 ? index : list.length, 0, tour)
+        tours.value = { ...tours.value, [stream]: list }
+        persistTours()
+    }
+
+    function removeTour(stream: string, id: string) {
+        if (runs.value[stream]?.tour.id === id) stopTour(stream)
+        const list = toursFor(stream).filter(t => t.id !== id)
+        const next = { ...tours.value }
+        if (list.length) next[stream] = list
+        else delete next[stream]
+        tours.value = next
+        persistTours()
+    }
+
+    function startTour(stream: string, id: string) {
+        const tour = toursFor(stream).find(t => t.id === id)
+        if (!tour?.stops.length) return
+        runs.value[stream] = {
+            stream,
+            tour: JSON.parse(JSON.stringify(tour)),
+            index: 0,
+            lap: 1,
+            phase: 'moving',
+            dwellUntil: 0,
+            remaining: tour.stops[0]!.dwell * 1000,
+            error: null,
+        }
+        now.value = Date.now()
+        goToStop(stream)
+        updateTimer()
+    }
+
+    function stopTour(stream: string) {
+        delete runs.value[stream]
+        nextToken(stream)
+        updateTimer()
+    }
+
+    return {
+        tours,
+        runs,
+        now,
+        toursFor,
+        saveTour,
+        removeTour,
+        startTour,
+        stopTour,
+    }
+}
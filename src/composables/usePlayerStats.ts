@@ -0,0 +1,192 @@
+import { ref, computed, watch, onScopeDispose, type Ref } from 'vue'
+import type Hls from 'hls.js'
+import type { PlaybackMode, PlayerStatsSample } from '@/types'
+
+const SAMPLE_INTERVAL = 1000
+const HISTORY_LENGTH = 180 // 3 minutes
+
+interface PlayerStatsSources {
+    enabled: Ref<boolean>
+    mode: Ref<PlaybackMode>
+    video: Ref<HTMLVideoElement | null>
+    container: Ref<HTMLElement | null>
+    getPeerConnection: () => RTCPeerConnection | null
+    getHls: () => Hls | null
+}
+
+// Raw counters from the previous sample, used to turn totals into rates
+interface Counters {
+    time: number
+    bytes?: number
+    frames?: number
+    packetsReceived?: number
+    packetsLost?: number
+}
+
+export function usePlayerStats(sources: PlayerStatsSources) {
+    const samples = ref<PlayerStatsSample[]>([])
+    const latest = computed(() => samples.value[samples.value.length - 1] ?? null)
+
+    let interval: number | null = null
+    let previous: Counters | null = null
+
+    function rate(current: number | undefined, last: number | undefined, seconds: number) {
+        if (current === undefined || last === undefined || current < last || seconds <= 0) return undefined
+        return (current - last) / seconds
+    }
+
+    async function collectWebRTC(sample: PlayerStatsSample, counters: Counters) {
+        const pc = sources.getPeerConnection()
+        if (!pc) return
+
+        const report = await pc.getStats()
+        let selectedPairId: string | undefined
+
+        report.forEach(stat => {
+            if (stat.type === 'inbound-rtp' && stat.kind === 'video') {
+                counters.bytes = stat.bytesReceived
+                counters.frames = stat.framesDecoded
+                counters.packetsReceived = stat.packetsReceived
+                counters.packetsLost = stat.packetsLost
+                sample.fps = stat.framesPerSecond
+                sample.width = stat.frameWidth
+                sample.height = stat.frameHeight
+                if (stat.jitter !== undefined) sample.jitter = stat.jitter * 1000
+            } else if (stat.type === 'transport' && stat.selectedCandidatePairId) {
+                selectedPairId = stat.selectedCandidatePairId
+            } else if (stat.type === 'candidate-pair' && stat.nominated && stat.state === 'succeeded' && !selectedPairId) {
+                selectedPairId = stat.id
+            }
+        })
+
+        const pair = selectedPairId ? report.get(selectedPairId) : undefined
+        if (pair) {
+            if (pair.currentRoundTripTime !== undefined) sample.rtt = pair.currentRoundTripTime * 1000
+            const remote = report.get(pair.remoteCandidateId)
+            const local = report.get(pair.localCandidateId)
+            // A relay on either side means the media goes through TURN
+            sample.candidateType = local?.candidateType === 'relay' ? 'relay' : remote?.candidateType
+        }
+
+        if (previous) {
+            const received = rate(counters.packetsReceived, previous.packetsReceived, 1)
+            const lost = rate(counters.packetsLost, previous.packetsLost, 1)
+            if (received !== undefined && lost !== undefined && received + lost > 0) {
+                sample.packetLoss = lost / (received + lost) * 100
+            }
+        }
+    }
+
+    function collectVideoElement(sample: PlayerStatsSample, counters: Counters) {
+        const video = sources.video.value
+        if (!video) return
+
+        sample.width = video.videoWidth || undefined
+        sample.height = video.videoHeight || undefined
+
+        const quality = video.getVideoPlaybackQuality?.()
+        if (quality) {
+            counters.frames = quality.totalVideoFrames
+            sample.droppedFrames = quality.droppedVideoFrames
+        }
+
+        const { buffered } = video
+        if (buffered.length > 0) {
+            const end = buffered.end(buffered.length - 1)
+            sample.buffered = end - buffered.start(0)
+            sample.latency = Math.max(0, end - video.currentTime)
+        }
+    }
+
+    function collectHLS(sample: PlayerStatsSample) {
+        const hls = sources.getHls()
+        if (!hls) return
+
+        sample.hlsLevel = hls.currentLevel
+        sample.bandwidthEstimate = hls.bandwidthEstimate / 1000
+        const level = hls.levels[hls.currentLevel]
+        if (level) {
+            sample.bitrate = level.bitrate / 1000
+        }
+        if (Number.isFinite(hls.latency)) {
+            sample.latency = hls.latency
+        }
+    }
+
+    function collectMJPEG(sample: PlayerStatsSample) {
+        const img = sources.container.value?.querySelector('img')
+        if (img) {
+            sample.width = img.naturalWidth || undefined
+            sample.height = img.naturalHeight || undefined
+        }
+    }
+
+    async function collect() {
+        const now = Date.now()
+        const sample: PlayerStatsSample = { time: now }
+        const counters: Counters = { time: now }
+
+        try {
+            switch (sources.mode.value) {
+                case 'webrtc':
+                    await collectWebRTC(sample, counters)
+                    break
+                case 'mse':
+                    collectVideoElement(sample, counters)
+                    break
+                case 'hls':
+                    collectVideoElement(sample, counters)
+                    collectHLS(sample)
+                    break
+                case 'mjpeg':
+                    collectMJPEG(sample)
+                    break
+            }
+        } catch (e) {
+            console.warn('[PlayerStats] Failed to collect stats:', e)
+        }
+
+        if (previous) {
+            const seconds = (now - previous.time) / 1000
+            const bytesPerSecond = rate(counters.bytes, previous.bytes, seconds)
+            if (bytesPerSecond !== undefined) sample.bitrate = bytesPerSecond * 8 / 1000
+            if (sample.fps === undefined) sample.fps = rate(counters.frames, previous.frames, seconds)
+        }
+        previous = counters
+
+        samples.value.push(sample)
+        if (samples.value.length > HISTORY_LENGTH) {
+            samples.value.splice(0, samples.value.length - HISTORY_LENGTH)
+        }
+    }
+
+    function start() {
+        if (interval) return
+        collect()
+        interval = window.setInterval(collect, SAMPLE_INTERVAL)
+    }
+
+    function stop() {
+        if (interval) {
+            clearInterval(interval)
+            interval = null
+        }
+        previous = null
+    }
+
+    function reset() {
+        samples.value = []
+        previous = null
+    }
+
+    watch(sources.enabled, enabled => enabled ? start() : stop(), { immediate: true })
+    watch(sources.mode, reset)
+
+    onScopeDispose(stop)
+
+    return {
+        samples,
+        latest,
+        reset,
+    }
+}
@@ -0,0 +1,271 @@
+import { ref, computed, onMounted, onUnmounted, type Ref } from 'vue'
+import type { TapoApi, TapoMotorCapability } from '@/services/tapo'
+import type { ResolvedTapoCamera } from '@/composables/useTapo'
+import { sleep } from '@/utils/concurrency'
+
+// ptzStep directions, degrees clockwise from up
+export const PTZ_DIRECTIONS = {
+    up: 0,
+    upRight: 45,
+    right: 90,
+    downRight: 135,
+    down: 180,
+    downLeft: 225,
+    left: 270,
+    upLeft: 315,
+}
+
+export type PtzDirection = keyof typeof PTZ_DIRECTIONS
+
+interface PtzRange {
+    min: number
+    max: number
+}
+
+interface PtzRanges {
+    pan: PtzRange
+    tilt: PtzRange
+}
+
+type PtzAction =
+    | { kind: 'move'; x: number; y: number }
+    | { kind: 'step'; direction: number }
+
+interface QueuedAction {
+    action: PtzAction
+    send: (action: PtzAction) => Promise<void>
+    done: (() => void)[]
+}
+
+interface PtzQueue {
+    busy: boolean
+    pending: QueuedAction | null
+}
+
+// Used when the camera does not report its motor range
+const DEFAULT_RANGES: PtzRanges = {
+    pan: { min: -170, max: 170 },
+    tilt: { min: -35, max: 35 },
+}
+
+// Share of the motor range between the centre of the picture and its edge,
+// roughly a C200's field of view. Good enough to aim; a second click corrects.
+const HALF_VIEW = { pan: 0.15, tilt: 0.4 }
+
+// Held buttons and keys repeat no faster than this, and no faster than the
+// camera answers
+const HOLD_MIN_INTERVAL = 150
+
+const GAMEPAD_DEADZONE = 0.2
+// Offset of one gamepad move at full stick, in half pictures
+const GAMEPAD_SPEED = 0.3
+
+// Shared by every player and panel so a camera only ever has one move in
+// flight, whichever component sent it
+const queues = new Map<string, PtzQueue>()
+const movingCameras = ref<Record<string, boolean>>({})
+const ranges = new Map<string, Promise<PtzRanges>>()
+const manualMoves = new Map<string, number>()
+
+function cameraKey(camera: ResolvedTapoCamera): string {
+    return `${camera.apiUrl}|${camera.ip}`
+}
+
+// Record a move made by the user, so automatic movement such as patrol tours
+// can back off
+export function noteManualMove(camera: ResolvedTapoCamera) {
+    manualMoves.set(cameraKey(camera), Date.now())
+}
+
+// Time of the last move the user made on this camera, 0 if none
+export function lastManualMove(camera: ResolvedTapoCamera): number {
+    return manualMoves.get(cameraKey(camera)) ?? 0
+}
+
+async function drain(key: string, queue: PtzQueue) {
+    queue.busy = true
+    movingCameras.value[key] = true
+    while (queue.pending) {
+        const { action, send, done } = queue.pending
+        queue.pending = null
+        try {
+            await send(action)
+        } catch (e) {
+            console.error('[PTZ] Move failed:', e)
+        }
+        done.forEach(resolve => resolve())
+    }
+    queue.busy = false
+    movingCameras.value[key] = false
+}
+
+// Queue an action behind the one in flight. Only the latest waiting action
+// is kept: consecutive moves add up, anything else replaces it. Resolves once
+// the action was sent, or dropped in favour of a newer one.
+function enqueue(key: string, action: PtzAction, send: QueuedAction['send']): Promise<void> {
+    let queue = queues.get(key)
+    if (!queue) {
+        queue = { busy: false, pending: null }
+        queues.set(key, queue)
+    }
+    const target = queue
+
+    return new Promise(resolve => {
+        const pending = target.pending
+        if (pending?.action.kind === 'move' && action.kind === 'move') {
+            pending.action = { kind: 'move', x: pending.action.x + action.x, y: pending.action.y + action.y }
+            pending.send = send
+            pending.done.push(resolve)
+        } else {
+            pending?.done.forEach(done => done())
+            target.pending = { action, send, done: [resolve] }
+        }
+        if (!target.busy) drain(key, target)
+    })
+}
+
+function toRange(range: TapoMotorCapability['pan'], fallback: PtzRange): PtzRange {
+    const min = Number(range?.min)
+    const max = Number(range?.max)
+    return Number.isFinite(min) && Number.isFinite(max) && max > min ? { min, max } : fallback
+}
+
+function loadRanges(key: string, api: TapoApi, ip: string): Promise<PtzRanges> {
+    let cached = ranges.get(key)
+    if (!cached) {
+        cached = api.getPtzCapability(ip)
+            .then(capability => ({
+                pan: toRange(capability.pan, DEFAULT_RANGES.pan),
+                tilt: toRange(capability.tilt, DEFAULT_RANGES.tilt),
+            }))
+            .catch(e => {
+                // Try again on the next move
+                ranges.delete(key)
+                console.warn('[PTZ] No motor capability, using default ranges:', e)
+                return DEFAULT_RANGES
+            })
+        ranges.set(key, cached)
+    }
+    return cached
+}
+
+// Map an offset from the centre of the picture, -1..1 across each half with
+// right and down positive, to motor units
+function offsetToMove(x: number, y: number, limits: PtzRanges): { x: number; y: number } {
+    const clamp = (value: number) => Math.max(-1, Math.min(1, value))
+    return {
+        x: Math.round(clamp(x) * (limits.pan.max - limits.pan.min) * HALF_VIEW.pan),
+        y: Math.round(-clamp(y) * (limits.tilt.max - limits.tilt.min) * HALF_VIEW.tilt),
+    }
+}
+
+// Offset of a point from the centre of the picture inside an element that
+// letterboxes it (object-fit: contain), -1..1 on each axis
+export function pictureOffset(event: { clientX: number; clientY: number }, element: HTMLElement, aspect?: number): { x: number; y: number } {
+    const rect = element.getBoundingClientRect()
+    let width = rect.width
+    let height = rect.height
+    if (aspect) {
+        if (width / height > aspect) width = height * aspect
+        else height = width / aspect
+    }
+    return {
+        x: (event.clientX - (rect.left + rect.width / 2)) / (width / 2),
+        y: (event.clientY - (rect.top + rect.height / 2)) / (height / 2),
+    }
+}
+
+export interface UsePtzOptions {
+    // Whether the left stick of a connected gamepad drives this camera
+    gamepad?: () => boolean
+}
+
+// Tapo pan/tilt for one camera: discrete steps for held buttons and keys,
+// relative moves for clicks, drags and gamepads
+export function usePtz(camera: Ref<ResolvedTapoCamera | null>, api: Ref<TapoApi | null>, options: UsePtzOptions = {}) {
+    const key = computed(() => camera.value ? cameraKey(camera.value) : null)
+    const available = computed(() => !!camera.value && !!api.value)
+    const isMoving = computed(() => !!key.value && !!movingCameras.value[key.value])
+
+    function send(action: PtzAction): Promise<void> {
+        const target = camera.value
+        const client = api.value
+        if (!target || !client || !key.value) return Promise.resolve()
+        noteManualMove(target)
+        return enqueue(key.value, action, a => a.kind === 'move'
+            ? client.ptzMove(target.ip, a.x, a.y)
+            : client.ptzStep(target.ip, a.direction))
+    }
+
+    function step(direction: PtzDirection): Promise<void> {
+        return send({ kind: 'step', direction: PTZ_DIRECTIONS[direction] })
+    }
+
+    // Move by an offset from the centre of the picture; see offsetToMove
+    async function moveBy(x: number, y: number): Promise<void> {
+        const target = camera.value
+        const client = api.value
+        if (!target || !client) return
+        const move = offsetToMove(x, y, await loadRanges(cameraKey(target), client, target.ip))
+        if (!move.x && !move.y) return
+        return send({ kind: 'move', ...move })
+    }
+
+    // Step repeatedly while a button or key is held
+    let holdDirection: PtzDirection | null = null
+
+    async function startHold(direction: PtzDirection) {
+        const looping = holdDirection !== null
+        holdDirection = direction
+        if (looping) return
+        while (holdDirection !== null && available.value) {
+            await Promise.all([step(holdDirection), sleep(HOLD_MIN_INTERVAL)])
+        }
+        holdDirection = null
+    }
+
+    function stopHold() {
+        holdDirection = null
+    }
+
+    // Gamepad: poll the left stick while a pad is connected
+    let gamepadFrame: number | null = null
+
+    function pollGamepad() {
+        gamepadFrame = null
+        const pad = [...navigator.getGamepads()].find(p => p?.connected)
+        if (!pad) return
+
+        const x = pad.axes[0] ?? 0
+        const y = pad.axes[1] ?? 0
+        if (options.gamepad?.() && !isMoving.value && Math.hypot(x, y) > GAMEPAD_DEADZONE) {
+            moveBy(x * GAMEPAD_SPEED, y * GAMEPAD_SPEED)
+        }
+        gamepadFrame = requestAnimationFrame(pollGamepad)
+    }
+
+    function onGamepadConnected() {
+        if (gamepadFrame === null) gamepadFrame = requestAnimationFrame(pollGamepad)
+    }
+
+    onMounted(() => {
+        if (!options.gamepad || !('getGamepads' in navigator)) return
+        window.addEventListener('gamepadconnected', onGamepadConnected)
+        onGamepadConnected()
+    })
+
+    onUnmounted(() => {
+        stopHold()
+        window.removeEventListener('gamepadconnected', onGamepadConnected)
+        if (gamepadFrame !== null) cancelAnimationFrame(gamepadFrame)
+    })
+
+    return {
+        available,
+        isMoving,
+        step,
+        moveBy,
+        startHold,
+        stopHold,
+    }
+}
@@ -0,0 +1,195 @@
+import { ref, onScopeDispose, type Ref } from 'vue'
+import { streamsApi } from '@/services/api'
+import { recordingsApi } from '@/services/recordings'
+import type { PlaybackMode } from '@/types'
+
+const RECORDER_MIME_TYPES = [
+    'video/webm;codecs=vp9,opus',
+    'video/webm;codecs=vp8,opus',
+    'video/webm',
+    'video/mp4',
+]
+
+interface RecorderSources {
+    src: Ref<string>
+    mode: Ref<PlaybackMode>
+    video: Ref<HTMLVideoElement | null>
+    container: Ref<HTMLElement | null>
+}
+
+type CapturableVideo = HTMLVideoElement & {
+    captureStream?: () => MediaStream
+    mozCaptureStream?: () => MediaStream
+}
+
+function timestampName(src: string, date = new Date()): string {
+    const pad = (n: number) => String(n).padStart(2, '0')
+    return `${src} ${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+        `${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`
+}
+
+export function useRecorder(sources: RecorderSources) {
+    const isRecording = ref(false)
+    const recordingDuration = ref(0)
+    const error = ref<string | null>(null)
+    const lastSaved = ref<string | null>(null)
+
+    let recorder: MediaRecorder | null = null
+    let chunks: Blob[] = []
+    let startedAt = 0
+    let durationTimer: number | null = null
+    let canvasFrame: number | null = null
+
+    // MJPEG is an <img>, so it is painted onto a canvas to get a MediaStream
+    function captureImage(img: HTMLImageElement): MediaStream {
+        const canvas = document.createElement('canvas')
+        canvas.width = img.naturalWidth || 1280
+        canvas.height = img.naturalHeight || 720
+        const ctx = canvas.getContext('2d')!
+
+        const draw = () => {
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
+            canvasFrame = requestAnimationFrame(draw)
+        }
+        draw()
+        return canvas.captureStream(15)
+    }
+
+    function getMediaStream(): MediaStream | null {
+        const video = sources.video.value as CapturableVideo | null
+
+        if (sources.mode.value === 'mjpeg') {
+            const img = sources.container.value?.querySelector('img')
+            return img ? captureImage(img) : null
+        }
+        if (!video) return null
+        if (video.srcObject instanceof MediaStream) return video.srcObject
+        return video.captureStream?.() ?? video.mozCaptureStream?.() ?? null
+    }
+
+    function startRecording() {
+        if (isRecording.value) return
+        error.value = null
+
+        if (typeof MediaRecorder === 'undefined') {
+            error.value = 'Recording is not supported in this browser'
+            return
+        }
+
+        const stream = getMediaStream()
+        if (!stream) {
+            error.value = 'Nothing is playing to record'
+            return
+        }
+
+        const mimeType = RECORDER_MIME_TYPES.find(t => MediaRecorder.isTypeSupported(t)) ?? ''
+        chunks = []
+        recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined)
+        recorder.ondataavailable = event => {
+            if (event.data.size > 0) chunks.push(event.data)
+        }
+        recorder.onstop = saveClip
+        recorder.start(1000)
+
+        startedAt = Date.now()
+        recordingDuration.value = 0
+        durationTimer = window.setInterval(() => {
+            recordingDuration.value = Date.now() - startedAt
+        }, 500)
+        isRecording.value = true
+    }
+
+    function stopRecording() {
+        if (durationTimer) {
+            clearInterval(durationTimer)
+            durationTimer = null
+        }
+        if (canvasFrame !== null) {
+            cancelAnimationFrame(canvasFrame)
+            canvasFrame = null
+        }
+        if (recorder && recorder.state !== 'inactive') {
+            recorder.stop()
+        }
+        recorder = null
+        isRecording.value = false
+    }
+
+    async function saveClip(this: MediaRecorder) {
+        const mimeType = this.mimeType || 'video/webm'
+        const blob = new Blob(chunks, { type: mimeType })
+        chunks = []
+        if (blob.size === 0) return
+
+        try {
+            const name = timestampName(sources.src.value)
+            await recordingsApi.add({
+                kind: 'clip',
+                stream: sources.src.value,
+                name,
+                createdAt: startedAt,
+                duration: Date.now() - startedAt,
+                size: blob.size,
+                mimeType,
+                blob,
+            })
+            lastSaved.value = name
+        } catch (e) {
+            error.value = e instanceof Error ? e.message : 'Failed to save recording'
+        }
+    }
+
+    async function grabFrame(): Promise<Blob | null> {
+        if (sources.mode.value === 'mjpeg') {
+            const response = await fetch(streamsApi.getSnapshotUrl(sources.src.value))
+            if (!response.ok) throw new Error(`Snapshot failed: HTTP ${response.status}`)
+            return response.blob()
+        }
+
+        const video = sources.video.value
+        if (!video || !video.videoWidth) return null
+
+        const canvas = document.createElement('canvas')
+        canvas.width = video.videoWidth
+        canvas.height = video.videoHeight
+        canvas.getContext('2d')!.drawImage(video, 0, 0)
+        return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.92))
+    }
+
+    async function takeSnapshot() {
+        error.value = null
+        try {
+            const blob = await grabFrame()
+            if (!blob) {
+                error.value = 'No video frame available'
+                return
+            }
+            const name = timestampName(sources.src.value)
+            await recordingsApi.add({
+                kind: 'snapshot',
+                stream: sources.src.value,
+                name,
+                createdAt: Date.now(),
+                duration: 0,
+                size: blob.size,
+                mimeType: blob.type || 'image/jpeg',
+                blob,
+            })
+            lastSaved.value = name
+        } catch (e) {
+            error.value = e instanceof Error ? e.message : 'Failed to take snapshot'
+        }
+    }
+
+    onScopeDispose(stopRecording)
+
+    return {
+        isRecording,
+        recordingDuration,
+        error,
+        lastSaved,
+        startRecording,
+        stopRecording,
+        takeSnapshot,
+    }
+}
@@ -0,0 +1,300 @@
+import { ref, reactive } from 'vue'
+import { TAPO_WEEKDAYS, type TapoApi, type TapoWeekday } from '@/services/tapo'
+import { useTapo } from '@/composables/useTapo'
+import { useAppStore } from '@/stores/app'
+import { audited } from '@/services/audit'
+
+// Settings a scene can change. Settings left undefined are not touched.
+export interface TapoSceneSettings {
+    privacy?: boolean
+    led?: boolean
+    motionDetection?: boolean
+    personDetection?: boolean
+    nightMode?: 'auto' | 'on' | 'off'
+    alarm?: boolean
+}
+
+export type TapoSceneSetting = keyof TapoSceneSettings
+
+export interface TapoSceneSchedule {
+    time: string            // "HH:MM", local time
+    days: TapoWeekday[]
+}
+
+export interface TapoScene {
+    id: string
+    name: string
+    icon: string
+    cameras: string[]       // stream names
+    settings: TapoSceneSettings
+    schedules: TapoSceneSchedule[]
+}
+
+export type SceneCameraStatus = 'pending' | 'running' | 'done' | 'failed'
+
+export interface SceneCameraResult {
+    stream: string
+    ip: string
+    status: SceneCameraStatus
+    failed: Partial<Record<TapoSceneSetting, string>>   // setting -> error
+    error: string | null                                // camera could not be reached at all
+}
+
+export interface SceneRun {
+    sceneId: string
+    sceneName: string
+    trigger: 'manual' | 'schedule'
+    startedAt: number
+    finishedAt: number | null
+    results: SceneCameraResult[]
+}
+
+export const SCENE_SETTING_LABELS: Record<TapoSceneSetting, string> = {
+    privacy: 'Privacy mode',
+    led: 'Status LED',
+    motionDetection: 'Motion detection',
+    personDetection: 'Person detection',
+    nightMode: 'Night mode',
+    alarm: 'Alarm on detection',
+}
+
+// Order in which settings are sent to a camera. Privacy goes first so the
+// lens is covered or uncovered before detection changes.
+const SETTING_ORDER: TapoSceneSetting[] = ['privacy', 'led', 'motionDetection', 'personDetection', 'nightMode', 'alarm']
+
+const SCHEDULE_CHECK_MS = 20_000
+const MAX_CATCH_UP_MS = 5 * 60_000
+
+const scenes = ref<TapoScene[]>(loadScenes())
+const lastRuns = ref<Record<string, SceneRun>>({})
+// Day each schedule last fired, "sceneId@HH:MM" -> date; kept so a reload
+// shortly after a schedule fired does not apply the scene twice
+const firedSchedules: Record<string, string> = loadFired()
+let schedulerTimer: number | null = null
+let lastScheduleCheck = 0
+
+function loadScenes(): TapoScene[] {
+    try {
+        const saved = localStorage.getItem('tapoScenes')
+        if (saved) {
+            const parsed = JSON.parse(saved)
+            if (Array.isArray(parsed)) {
+                return parsed.filter(s => s?.id && s?.name).map(s => ({
+                    icon: 'mdi:palette-outline',
+                    cameras: [],
+                    settings: {},
+                    schedules: [],
+                    ...s,
+                }))
+            }
+        }
+    } catch {
+        // Start without scenes
+    }
+    return []
+}
+
+function persistScenes() {
+    localStorage.setItem('tapoScenes', JSON.stringify(scenes.value))
+}
+
+function loadFired(): Record<string, string> {
+    try {
+        return JSON.parse(localStorage.getItem('tapoSceneSchedule') || '{}')
+    } catch {
+        return {}
+    }
+}
+
+function dateKey(date: Date): string {
+    return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`
+}
+
+async function applySetting(api: TapoApi, ip: string, setting: TapoSceneSetting, settings: TapoSceneSettings) {
+    switch (setting) {
+        case 'privacy':
+            return api.setPrivacy(ip, settings.privacy!)
+        case 'led':
+            return api.setLed(ip, settings.led!)
+        case 'motionDetection':
+            return api.setMotionDetection(ip, settings.motionDetection!)
+        case 'personDetection':
+            return api.setPersonDetection(ip, settings.personDetection!)
+        case 'nightMode':
+            return api.setNightMode(ip, settings.nightMode!)
+        case 'alarm': {
+            // setAlarm replaces the whole config, keep the camera's modes
+            const current = await api.getAlarm(ip)
+            return api.setAlarm(ip, { ...current, enabled: settings.alarm })
+        }
+    }
+}
+
+export function sceneSettingList(settings: TapoSceneSettings): TapoSceneSetting[] {
+    return SETTING_ORDER.filter(s => settings[s] !== undefined)
+}
+
+export function describeSceneSetting(setting: TapoSceneSetting, settings: TapoSceneSettings): string {
+    const value = settings[setting]
+    if (typeof value === 'boolean') return `${SCENE_SETTING_LABELS[setting]} ${value ? 'on' : 'off'}`
+    return `${SCENE_SETTING_LABELS[setting]} ${value}`
+}
+
+export function useScenes() {
+    const store = useAppStore()
+    const { resolveCamera, apiFor } = useTapo()
+
+    function saveScene(scene: TapoScene) {
+        const index = scenes.value.findIndex(s => s.id === scene.id)
+        if (index >= 0) {
+            scenes.value[index] = scene
+        } else {
+            scenes.value.push(scene)
+        }
+        persistScenes()
+    }
+
+    function removeScene(id: string) {
+        scenes.value = scenes.value.filter(s => s.id !== id)
+        delete lastRuns.value[id]
+        persistScenes()
+    }
+
+    // Apply settings to one camera. Settings are sent one after another since
+    // the camera answers a single request at a time; cameras run in parallel.
+    async function applyToCamera(result: SceneCameraResult, settings: TapoSceneSettings, only?: TapoSceneSetting[]) {
+        result.status = 'running'
+        result.error = null
+
+        const resolved = resolveCamera(result.stream, store.streams[result.stream])
+        const api = resolved ? apiFor(resolved) : null
+        if (!resolved || !api) {
+            result.error = resolved ? 'No credentials for this camera' : 'Camera IP unknown'
+            result.status = 'failed'
+            return
+        }
+        result.ip = resolved.ip
+
+        const failed: SceneCameraResult['failed'] = {}
+        for (const setting of only ?? sceneSettingList(settings)) {
+            try {
+                const apply = () => applySetting(api, resolved.ip, setting, settings)
+                await (setting === 'privacy'
+                    ? audited('tapo.privacy', result.stream, apply, `${settings.privacy ? 'On' : 'Off'}, from a scene`)
+                    : apply())
+            } catch (e) {
+                failed[setting] = e instanceof Error ? e.message : 'Request failed'
+            }
+        }
+        result.failed = failed
+        result.status = Object.keys(failed).length ? 'failed' : 'done'
+    }
+
+    async function applyScene(scene: TapoScene, trigger: SceneRun['trigger'] = 'manual'): Promise<SceneRun> {
+        const run = reactive<SceneRun>({
+            sceneId: scene.id,
+            sceneName: scene.name,
+            trigger,
+            startedAt: Date.now(),
+            finishedAt: null,
+            results: scene.cameras.map(stream => ({ stream, ip: '', status: 'pending', failed: {}, error: null })),
+        })
+        lastRuns.value[scene.id] = run
+
+        await Promise.all(run.results.map(result => applyToCamera(result, scene.settings)))
+        run.finishedAt = Date.now()
+        notify(run)
+        return run
+    }
+
+    // Run again only the cameras, and the settings of those cameras, that failed
+    async function retryFailed(sceneId: string) {
+        const run = lastRuns.value[sceneId]
+        const scene = scenes.value.find(s => s.id === sceneId)
+        if (!run || !scene) return
+
+        const failed = run.results.filter(r => r.status === 'failed')
+        if (!failed.length) return
+        run.finishedAt = null
+        await Promise.all(failed.map(result => {
+            const only = result.error ? undefined : Object.keys(result.failed) as TapoSceneSetting[]
+            return applyToCamera(result, scene.settings, only)
+        }))
+        run.finishedAt = Date.now()
+        notify(run)
+    }
+
+    function notify(run: SceneRun) {
+        const failed = run.results.filter(r => r.status === 'failed').length
+        const total = run.results.length
+        const prefix = run.trigger === 'schedule' ? 'Scheduled scene' : 'Scene'
+        if (failed) {
+            store.showToast({
+                type: failed === total ? 'error' : 'warning',
+                title: `${prefix} "${run.sceneName}" incomplete`,
+                message: `${failed} of ${total} camera${total === 1 ? '' : 's'} failed`,
+            })
+        } else {
+            store.showToast({
+                type: 'success',
+                title: `${prefix} "${run.sceneName}" applied`,
+                message: `${total} camera${total === 1 ? '' : 's'} updated`,
+            })
+        }
+    }
+
+    // Fire schedules whose time passed since the previous check. Timers in
+    // hidden tabs are throttled, so this looks back instead of matching the
+    // current minute, but never further than MAX_CATCH_UP_MS: a laptop waking
+    // up hours later should not replay the day's scenes.
+    function checkSchedules() {
+        const now = new Date()
+        const since = Math.max(lastScheduleCheck, now.getTime() - MAX_CATCH_UP_MS)
+        lastScheduleCheck = now.getTime()
+        // Just after midnight the window still covers the end of yesterday
+        const midnight = new Date(now).setHours(0, 0, 0, 0)
+        const dates = since < midnight ? [new Date(midnight - 1), now] : [now]
+        let changed = false
+
+        for (const date of dates) {
+            const day = TAPO_WEEKDAYS[(date.getDay() + 6) % 7]!
+            const dateStamp = dateKey(date)
+
+            for (const scene of scenes.value) {
+                for (const schedule of scene.schedules) {
+                    if (!schedule.days.includes(day)) continue
+                    const [hours, minutes] = schedule.time.split(':').map(Number)
+                    const at = new Date(date).setHours(hours ?? 0, minutes ?? 0, 0, 0)
+                    if (at <= since || at > now.getTime()) continue
+
+                    const key = `${scene.id}@${schedule.time}`
+                    if (firedSchedules[key] === dateStamp) continue
+                    firedSchedules[key] = dateStamp
+                    changed = true
+                    if (scene.cameras.length) {
+                        applyScene(scene, 'schedule').catch(e => console.error('[Scenes] Scheduled apply failed:', e))
+                    }
+                }
+            }
+        }
+        if (changed) localStorage.setItem('tapoSceneSchedule', JSON.stringify(firedSchedules))
+    }
+
+    // Schedules only fire while the app is open
+    function initSceneScheduler() {
+        if (schedulerTimer) return
+        lastScheduleCheck = Date.now() - SCHEDULE_CHECK_MS
+        schedulerTimer = window.setInterval(checkSchedules, SCHEDULE_CHECK_MS)
+        checkSchedules()
+    }
+
+    return {
+        scenes,
+        lastRuns,
+        saveScene,
+        removeScene,
+        applyScene,
+        retryFailed,
+        initSceneScheduler,
+    }
+}
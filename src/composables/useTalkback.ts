@@ -0,0 +1,123 @@
+import { ref, computed, onScopeDispose } from 'vue'
+import type { StreamInfo } from '@/types'
+
+export type TalkbackState = 'idle' | 'requesting' | 'ready' | 'denied' | 'unavailable' | 'error'
+
+// A producer advertises a camera speaker as an audio media we can send to
+export function hasBackchannel(info: StreamInfo | null | undefined): boolean {
+    return !!info?.producers?.some(producer =>
+        producer.medias?.some(media =>
+            media.kind === 'audio' && (media.direction === 'sendonly' || media.direction === 'sendrecv')
+        )
+    )
+}
+
+export function useTalkback() {
+    const state = ref<TalkbackState>('idle')
+    const error = ref<string | null>(null)
+    const isTalking = ref(false)
+    const level = ref(0)
+
+    let stream: MediaStream | null = null
+    let audioContext: AudioContext | null = null
+    let meterFrame: number | null = null
+
+    const track = computed(() => state.value === 'ready' ? stream?.getAudioTracks()[0] ?? null : null)
+
+    function startMeter(source: MediaStream) {
+        audioContext = new AudioContext()
+        const analyser = audioContext.createAnalyser()
+        analyser.fftSize = 512
+        audioContext.createMediaStreamSource(source).connect(analyser)
+        const data = new Uint8Array(analyser.fftSize)
+
+        const tick = () => {
+            analyser.getByteTimeDomainData(data)
+            let sum = 0
+            for (const sample of data) {
+                const v = (sample - 128) / 128
+                sum += v * v
+            }
+            // RMS scaled so normal speech fills most of the meter
+            level.value = isTalking.value ? Math.min(1, Math.sqrt(sum / data.length) * 4) : 0
+            meterFrame = requestAnimationFrame(tick)
+        }
+        tick()
+    }
+
+    function stopMeter() {
+        if (meterFrame !== null) {
+            cancelAnimationFrame(meterFrame)
+            meterFrame = null
+        }
+        audioContext?.close()
+        audioContext = null
+        level.value = 0
+    }
+
+    // Asks for the microphone. The track starts muted until setTalking(true).
+    async function acquire(): Promise<MediaStreamTrack | null> {
+        if (track.value) return track.value
+
+        if (!navigator.mediaDevices?.getUserMedia) {
+            state.value = 'unavailable'
+            error.value = 'Microphone access requires HTTPS or localhost'
+            return null
+        }
+
+        state.value = 'requesting'
+        error.value = null
+
+        try {
+            stream = await navigator.mediaDevices.getUserMedia({
+                audio: { echoCancellation: true, noiseSuppression: true },
+            })
+            const audioTrack = stream.getAudioTracks()[0]
+            if (!audioTrack) throw new Error('No microphone found')
+            audioTrack.enabled = false
+            startMeter(stream)
+            state.value = 'ready'
+            return audioTrack
+        } catch (e) {
+            release()
+            if (e instanceof DOMException && (e.name === 'NotAllowedError' || e.name === 'SecurityError')) {
+                state.value = 'denied'
+                error.value = 'Microphone permission denied'
+            } else {
+                state.value = 'error'
+                error.value = e instanceof Error ? e.message : 'Failed to access microphone'
+            }
+            return null
+        }
+    }
+
+    function setTalking(talking: boolean) {
+        const audioTrack = stream?.getAudioTracks()[0]
+        if (!audioTrack) return
+        audioTrack.enabled = talking
+        isTalking.value = talking
+    }
+
+    function release() {
+        stopMeter()
+        stream?.getTracks().forEach(t => t.stop())
+        stream = null
+        isTalking.value = false
+        if (state.value === 'ready' || state.value === 'requesting') {
+            state.value = 'idle'
+        }
+    }
+
+    onScopeDispose(release)
+
+    return {
+        state,
+        error,
+        isTalking,
+        level,
+        track,
+        acquire,
+        setTalking,
+        release,
+    }
+}
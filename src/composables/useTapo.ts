@@ -1,29 +1,117 @@
-import { ref, computed } from 'vue'
-import { createTapoApi, type TapoApi } from '@/services/tapo'
+import { ref, computed, toValue, type MaybeRefOrGetter } from 'vue'
+import { createTapoApi, type TapoApi, type TapoCamera, type TapoCredentials, type TapoDeviceInfo } from '@/services/tapo'
+import { useCredentialVault, TAPO_PROXY_URL } from '@/composables/useCredentialVault'
+import { useAppStore } from '@/stores/app'
+import type { StreamInfo } from '@/types'
 
-export function useTapo() {
-    // Vite uses import.meta.env for environment variables
-    const envUrl = (import.meta as any).env?.VITE_TAPO_API_URL || ''
-    const envCameraIp = (import.meta as any).env?.VITE_TAPO_CAMERA_IP || ''
-    const envUsername = (import.meta as any).env?.VITE_TAPO_USERNAME || ''
-    const envPassword = (import.meta as any).env?.VITE_TAPO_PASSWORD || ''
+// Vite uses import.meta.env for environment variables
+const envUrl = (import.meta as any).env?.VITE_TAPO_API_URL || ''
+
+const defaultUrl = 'http://localhost:3000'
+const storedUrl = localStorage.getItem('tapoApiUrl')
+
+// Use stored URL only if it exists and is NOT the generic default (unless env is missing)
+const initialUrl = (storedUrl && storedUrl !== defaultUrl) ? storedUrl : (envUrl || defaultUrl)
+
+// Vault entry names of the default connection's and the cameras' passwords
+const DEFAULT_SECRET = 'default'
+
+// Shared by every component: the default connection used for auto-detected
+// cameras, and the registry of explicitly mapped ones. Passwords are read
+// from the credential vault.
+const vault = useCredentialVault()
+const legacyPasswords: Record<string, string> = {}
+const tapoApiUrl = ref(initialUrl)
+const tapoUsername = ref(localStorage.getItem('tapoUsername') || '')
+const tapoPassword = computed(() => vault.getSecret(DEFAULT_SECRET) ?? '')
+const cameras = ref<TapoCamera[]>(loadCameras())
+
+function cameraSecret(stream: string): string {
+    return `camera:${stream}`
+}
 
-    const storedUrl = localStorage.getItem('tapoApiUrl')
-    const storedCameraIp = localStorage.getItem('tapoCameraIp')
-    const defaultUrl = 'http://localhost:3000'
+function loadCameras(): TapoCamera[] {
+    try {
+        const saved = localStorage.getItem('tapoCameras')
+        if (saved) {
+            const parsed = JSON.parse(saved)
+            if (Array.isArray(parsed)) {
+                return parsed.filter(c => c?.stream && c?.ip).map(({ password, ...camera }) => {
+                    if (password) legacyPasswords[cameraSecret(camera.stream)] = password
+                    return camera
+                })
+            }
+        }
+    } catch {
+        // Start with an empty registry
+    }
+    return []
+}
 
-    // Use stored URL only if it exists and is NOT the generic default (unless env is missing)
-    const initialUrl = (storedUrl && storedUrl !== defaultUrl) ? storedUrl : (envUrl || defaultUrl)
-    const initialCameraIp = storedCameraIp || envCameraIp || ''
+function persistCameras() {
+    localStorage.setItem('tapoCameras', JSON.stringify(cameras.value))
+}
 
-    const tapoApiUrl = ref(initialUrl)
-    const tapoCameraIp = ref(initialCameraIp)
-    const tapoUsername = ref(localStorage.getItem('tapoUsername') || envUsername || '')
-    const tapoPassword = ref(localStorage.getItem('tapoPassword') || envPassword || '')
+// Passwords used to be kept in plain localStorage. Move them into the vault
+// once it is readable; a locked vault keeps them until the next start.
+async function migrateLegacyPasswords() {
+    const password = localStorage.getItem('tapoPassword')
+    if (password) legacyPasswords[DEFAULT_SECRET] = password
+    if (!Object.keys(legacyPasswords).length) return
+
+    await vault.ready
+    if (vault.isLocked.value) return
+    for (const [name, value] of Object.entries(legacyPasswords)) {
+        if (vault.getSecret(name) === undefined) await vault.setSecret(name, value)
+    }
+    localStorage.removeItem('tapoPassword')
+    persistCameras()
+}
 
-    const isConfigured = computed(() => !!(tapoUsername.value && tapoPassword.value))
+migrateLegacyPasswords().catch(e => console.error('[Tapo] Failed to move passwords into the vault:', e))
 
+export interface ResolvedTapoCamera {
+    stream: string
+    ip: string
+    source: 'registry' | 'detected'
+    camera?: TapoCamera
+    apiUrl: string
+    credentials: TapoCredentials | null
+    proxied: boolean    // the nginx proxy adds the credentials
+}
+
+// Guess the camera IP from the stream name or its producers. Only used for
+// streams that have no registry entry.
+export function detectCameraIp(stream: string, info?: StreamInfo | null): string {
+    // 1. Try to find IP in the stream name itself (e.g. if name is URL-like)
+    let match = stream.match(/@([\d.]+)[:\/]/) || stream.match(/\/\/([\d.]+)[:\/]/)
+    if (match) return match[1]!
+
+    // 2. Check the producers of the stream
+    for (const producer of info?.producers ?? []) {
+        // URL of RTSP/HTTP sources
+        if (producer.url) {
+            match = producer.url.match(/@([\d.]+)[:\/]/) || producer.url.match(/\/\/([\d.]+)[:\/]/)
+            if (match) return match[1]!
+        }
+
+        // remote_addr of Tapo/other sources, "IP:PORT" or just "IP"
+        if (producer.remote_addr) {
+            const ip = producer.remote_addr.split(':')[0]
+            if (ip && ip.match(/^[\d.]+$/)) return ip
+        }
+    }
+
+    return ''
+}
+
+export function useTapo() {
+    const isProxied = computed(() => vault.mode.value === 'proxy')
+    const isConfigured = computed(() => isProxied.value || !!(tapoUsername.value && tapoPassword.value))
+
+    // API for the default connection
     const api = computed<TapoApi | null>(() => {
+        if (isProxied.value) return createTapoApi(TAPO_PROXY_URL, null)
         if (!isConfigured.value) return null
         return createTapoApi(tapoApiUrl.value, {
             username: tapoUsername.value,
@@ -31,40 +119,132 @@ export function useTapo() {
         })
     })
 
-    function saveConfig(url: string, user: string, pass: string, cameraIp?: string) {
+    function credentials(username: string, password: string | undefined): TapoCredentials | null {
+        return username && password ? { username, password } : null
+    }
+
+    function findCamera(stream: string): TapoCamera | undefined {
+        return cameras.value.find(c => c.stream === stream)
+    }
+
+    function resolveCamera(stream: string, info?: StreamInfo | null): ResolvedTapoCamera | null {
+        const camera = findCamera(stream)
+        const ip = camera?.ip ?? detectCameraIp(stream, info)
+        if (!ip) return null
+
+        const resolved: ResolvedTapoCamera = camera
+            ? {
+                stream,
+                ip,
+                source: 'registry',
+                camera,
+                apiUrl: camera.apiUrl || tapoApiUrl.value,
+                credentials: credentials(camera.username, vault.getSecret(cameraSecret(stream))),
+                proxied: false,
+            }
+            : {
+                stream,
+                ip,
+                source: 'detected',
+                apiUrl: tapoApiUrl.value,
+                credentials: credentials(tapoUsername.value, tapoPassword.value),
+                proxied: false,
+            }
+
+        // The proxy forwards to a single gotapo-api with its own credentials
+        if (isProxied.value) {
+            return { ...resolved, apiUrl: TAPO_PROXY_URL, credentials: null, proxied: true }
+        }
+        return resolved
+    }
+
+    function apiFor(resolved: ResolvedTapoCamera): TapoApi | null {
+        if (!resolved.proxied && !resolved.credentials) return null
+        return createTapoApi(resolved.apiUrl, resolved.credentials)
+    }
+
+    function getCameraPassword(stream: string): string | undefined {
+        return vault.getSecret(cameraSecret(stream))
+    }
+
+    // Check that the camera answers with the given IP and credentials
+    async function validateCamera(camera: TapoCamera, password: string): Promise<TapoDeviceInfo> {
+        const api = isProxied.value
+            ? createTapoApi(TAPO_PROXY_URL, null)
+            : createTapoApi(camera.apiUrl || tapoApiUrl.value, { username: camera.username, password })
+        return api.getInfo(camera.ip)
+    }
+
+    // Add or replace the entry for camera.stream. previousStream is the
+    // stream the entry was mapped to before, when editing renames it.
+    // The password is left unchanged when undefined.
+    async function saveCamera(camera: TapoCamera, password?: string, previousStream?: string) {
+        if (previousStream && previousStream !== camera.stream) {
+            await vault.renameSecret(cameraSecret(previousStream), cameraSecret(camera.stream))
+        }
+        if (password !== undefined) await vault.setSecret(cameraSecret(camera.stream), password)
+
+        const remove = new Set([camera.stream, previousStream ?? camera.stream])
+        cameras.value = [...cameras.value.filter(c => !remove.has(c.stream)), camera]
+            .sort((a, b) => a.stream.localeCompare(b.stream))
+        persistCameras()
+    }
+
+    async function removeCamera(stream: string) {
+        cameras.value = cameras.value.filter(c => c.stream !== stream)
+        persistCameras()
+        await vault.deleteSecret(cameraSecret(stream))
+    }
+
+    async function saveConfig(url: string, user: string, pass: string) {
         tapoApiUrl.value = url
         tapoUsername.value = user
-        tapoPassword.value = pass
-        if (cameraIp) {
-            tapoCameraIp.value = cameraIp
-            localStorage.setItem('tapoCameraIp', cameraIp)
-        }
 
         localStorage.setItem('tapoApiUrl', url)
         localStorage.setItem('tapoUsername', user)
-        localStorage.setItem('tapoPassword', pass)
+        await vault.setSecret(DEFAULT_SECRET, pass)
     }
 
-    function resetConfig() {
-        tapoApiUrl.value = envUrl || 'http://localhost:3000'
-        tapoCameraIp.value = envCameraIp || ''
-        tapoUsername.value = envUsername || ''
-        tapoPassword.value = envPassword || ''
+    async function resetConfig() {
+        tapoApiUrl.value = envUrl || defaultUrl
+        tapoUsername.value = ''
 
         localStorage.removeItem('tapoApiUrl')
-        localStorage.removeItem('tapoCameraIp')
         localStorage.removeItem('tapoUsername')
-        localStorage.removeItem('tapoPassword')
+        await vault.deleteSecret(DEFAULT_SECRET)
     }
 
     return {
         tapoApiUrl,
-        tapoCameraIp,
         tapoUsername,
         tapoPassword,
         isConfigured,
+        isProxied,
         api,
+        cameras,
+        findCamera,
+        resolveCamera,
+        apiFor,
+        getCameraPassword,
+        validateCamera,
+        saveCamera,
+        removeCamera,
         saveConfig,
         resetConfig
     }
 }
+
+// Tapo camera behind a stream: its registry entry, or an auto-detected IP
+// with the default connection when the stream is not mapped
+export function useTapoCamera(stream: MaybeRefOrGetter<string>) {
+    const store = useAppStore()
+    const { resolveCamera, apiFor } = useTapo()
+
+    const camera = computed(() => {
+        const name = toValue(stream)
+        return resolveCamera(name, store.streams[name])
+    })
+    const api = computed(() => camera.value ? apiFor(camera.value) : null)
+
+    return { camera, api }
+}
@@ -14,12 +14,48 @@ const routes: RouteRecordRaw[] = [
         component: () => import('@/pages/StreamPlayer.vue'),
         meta: { title: 'Stream Player' }
     },
+    {
+        path: '/wall',
+        name: 'Wall',
+        component: () => import('@/pages/Wall.vue'),
+        meta: { title: 'Video Wall' }
+    },
+    {
+        path: '/recordings',
+        name: 'Recordings',
+        component: () => import('@/pages/Recordings.vue'),
+        meta: { title: 'Recordings' }
+    },
+    {
+        path: '/cameras',
+        name: 'Cameras',
+        component: () => import('@/pages/Cameras.vue'),
+        meta: { title: 'Tapo Cameras' }
+    },
+    {
+        path: '/fleet',
+        name: 'Fleet',
+        component: () => import('@/pages/Fleet.vue'),
+        meta: { title: 'Fleet' }
+    },
+    {
+        path: '/scenes',
+        name: 'Scenes',
+        component: () => import('@/pages/Scenes.vue'),
+        meta: { title: 'Scenes' }
+    },
     {
         path: '/add',
         name: 'AddStream',
         component: () => import('@/pages/AddStream.vue'),
         meta: { title: 'Add Stream' }
     },
+    {
+        path: '/import',
+        name: 'ImportExport',
+        component: () => import('@/pages/ImportExport.vue'),
+        meta: { title: 'Import / Export' }
+    },
     {
         path: '/config',
         name: 'Config',
@@ -32,17 +68,35 @@ const routes: RouteRecordRaw[] = [
         component: () => import('@/pages/Logs.vue'),
         meta: { title: 'Logs' }
     },
+    {
+        path: '/audit',
+        name: 'Audit',
+        component: () => import('@/pages/Audit.vue'),
+        meta: { title: 'Audit Trail' }
+    },
     {
         path: '/network',
         name: 'Network',
         component: () => import('@/pages/Network.vue'),
         meta: { title: 'Network' }
     },
+    {
+        path: '/info/:src',
+        name: 'StreamDetails',
+        component: () => import('@/pages/StreamDetails.vue'),
+        meta: { title: 'Stream Details' }
+    },
     {
         path: '/links/:src',
         name: 'StreamLinks',
         component: () => import('@/pages/StreamLinks.vue'),
         meta: { title: 'Stream Links' }
+    },
+    {
+        path: '/edit/:src',
+        name: 'StreamEdit',
+        component: () => import('@/pages/StreamEdit.vue'),
+        meta: { title: 'Edit Stream' }
     }
 ]
 
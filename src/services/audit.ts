@@ -0,0 +1,59 @@
+import { db } from '@/services/db'
+import { maskSecrets } from '@/utils/sources'
+import type { AuditAction, AuditEntry } from '@/types'
+
+const STORE = 'audit'
+// Oldest entries are dropped beyond this
+const MAX_ENTRIES = 5000
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+    'stream.add': 'Stream added',
+    'stream.update': 'Stream updated',
+    'stream.delete': 'Stream deleted',
+    'stream.restore': 'Stream restored',
+    'config.save': 'Config saved',
+    'config.restart': 'go2rtc restarted',
+    'tapo.reboot': 'Camera rebooted',
+    'tapo.format': 'SD card formatted',
+    'tapo.upgrade': 'Firmware upgrade',
+    'tapo.privacy': 'Privacy mode',
+}
+
+// Audit trail API (mutating actions performed from this browser, kept in IndexedDB)
+export const auditApi = {
+    async list(): Promise<AuditEntry[]> {
+        const entries = await db.getAll<AuditEntry>(STORE)
+        return entries.sort((a, b) => (b.id ?? 0) - (a.id ?? 0))
+    },
+
+    async record(entry: Omit<AuditEntry, 'id' | 'time'>): Promise<void> {
+        await db.put(STORE, {
+            ...entry,
+            time: Date.now(),
+            detail: entry.detail && maskSecrets(entry.detail),
+            error: entry.error && maskSecrets(entry.error),
+        })
+        await db.trim(STORE, MAX_ENTRIES)
+    },
+
+    async clear(): Promise<void> {
+        await db.clear(STORE)
+    },
+}
+
+// Run an action and record its outcome. The result or error is passed
+// through; a failure to write the trail never fails the action.
+export async function audited<T>(action: AuditAction, target: string, run: () => Promise<T>, detail?: string): Promise<T> {
+    const record = (entry: Pick<AuditEntry, 'outcome' | 'error'>) =>
+        auditApi.record({ action, target, detail, ...entry })
+            .catch(e => console.error('[Audit] Failed to record:', e))
+
+    try {
+        const result = await run()
+        record({ outcome: 'success' })
+        return result
+    } catch (e) {
+        record({ outcome: 'failure', error: e instanceof Error ? e.message : String(e) })
+        throw e
+    }
+}
@@ -0,0 +1,87 @@
+import { db } from '@/services/db'
+import type { ConfigSnapshot } from '@/types'
+
+const STORE = 'configSnapshots'
+const EXPORT_VERSION = 1
+
+interface HistoryExport {
+    version: number
+    exportedAt: string
+    snapshots: Omit<ConfigSnapshot, 'id'>[]
+}
+
+function isSnapshot(value: unknown): value is Omit<ConfigSnapshot, 'id'> {
+    const snapshot = value as ConfigSnapshot | null
+    return typeof snapshot?.createdAt === 'number' && typeof snapshot.config === 'string'
+}
+
+// Config history API (snapshots of go2rtc.yaml kept in IndexedDB)
+export const configHistoryApi = {
+    async list(): Promise<ConfigSnapshot[]> {
+        const snapshots = await db.getAll<ConfigSnapshot>(STORE)
+        return snapshots.sort((a, b) => b.createdAt - a.createdAt)
+    },
+
+    async add(snapshot: Omit<ConfigSnapshot, 'id' | 'createdAt'>): Promise<number> {
+        return await db.put(STORE, { ...snapshot, createdAt: Date.now() }) as number
+    },
+
+    async delete(id: number): Promise<void> {
+        await db.delete(STORE, id)
+    },
+
+    async clear(): Promise<void> {
+        await db.clear(STORE)
+    },
+
+    // Adds the config as a 'server' snapshot unless it matches the newest one,
+    // so there is always a record of what was running before the first edit
+    async captureIfChanged(config: string): Promise<boolean> {
+        const [latest] = await this.list()
+        if (latest?.config === config) return false
+        await this.add({ config, note: 'Loaded from server', source: 'server' })
+        return true
+    },
+
+    async exportAll(): Promise<Blob> {
+        const snapshots = await this.list()
+        const data: HistoryExport = {
+            version: EXPORT_VERSION,
+            exportedAt: new Date().toISOString(),
+            snapshots: snapshots.map(({ id: _id, ...snapshot }) => snapshot),
+        }
+        return new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+    },
+
+    // Merges an exported history file, skipping snapshots that already exist.
+    // Returns how many were added.
+    async importAll(text: string): Promise<number> {
+        let data: HistoryExport
+        try {
+            data = JSON.parse(text)
+        } catch {
+            throw new Error('Not a valid config history file')
+        }
+        if (!Array.isArray(data?.snapshots)) throw new Error('Not a valid config history file')
+
+        const existing = await this.list()
+        const known = new Set(existing.map(s => `${s.createdAt}:${s.config}`))
+        let added = 0
+
+        for (const snapshot of data.snapshots) {
+            if (!isSnapshot(snapshot) || known.has(`${snapshot.createdAt}:${snapshot.config}`)) continue
+            await db.put(STORE, {
+                createdAt: snapshot.createdAt,
+                config: snapshot.config,
+                note: typeof snapshot.note === 'string' ? snapshot.note : '',
+                source: snapshot.source ?? 'import',
+            })
+            added++
+        }
+        return added
+    },
+
+    getFileName(date = new Date()): string {
+        return `go2rtc-config-history-${date.toISOString().slice(0, 10)}.json`
+    },
+}
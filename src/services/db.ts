@@ -0,0 +1,124 @@
+// Minimal IndexedDB wrapper shared by the locally persisted features.
+// Add new object stores to STORES and bump DB_VERSION; missing stores are
+// created on upgrade, existing ones are left untouched.
+
+const DB_NAME = 'go2rtc-frontend'
+const DB_VERSION = 5
+
+interface StoreSchema {
+    keyPath: string
+    autoIncrement?: boolean
+    indexes?: string[]
+}
+
+const STORES: Record<string, StoreSchema> = {
+    recordings: { keyPath: 'id', autoIncrement: true, indexes: ['stream', 'createdAt'] },
+    configSnapshots: { keyPath: 'id', autoIncrement: true, indexes: ['createdAt'] },
+    logs: { keyPath: 'id', autoIncrement: true },
+    presetThumbnails: { keyPath: 'id' },
+    audit: { keyPath: 'id', autoIncrement: true },
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    })
+}
+
+export function openDB(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise
+
+    dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+        request.onupgradeneeded = () => {
+            const db = request.result
+            for (const [name, schema] of Object.entries(STORES)) {
+                if (db.objectStoreNames.contains(name)) continue
+                const store = db.createObjectStore(name, {
+                    keyPath: schema.keyPath,
+                    autoIncrement: schema.autoIncrement,
+                })
+                schema.indexes?.forEach(index => store.createIndex(index, index))
+            }
+        }
+
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+            dbPromise = null
+            reject(request.error)
+        }
+    })
+
+    return dbPromise
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve()
+        transaction.onerror = () => reject(transaction.error)
+        transaction.onabort = () => reject(transaction.error)
+    })
+}
+
+async function objectStore(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await openDB()
+    return db.transaction(name, mode).objectStore(name)
+}
+
+export const db = {
+    async getAll<T>(store: string): Promise<T[]> {
+        return promisify((await objectStore(store, 'readonly')).getAll())
+    },
+
+    async get<T>(store: string, key: IDBValidKey): Promise<T | undefined> {
+        return promisify((await objectStore(store, 'readonly')).get(key))
+    },
+
+    async put<T>(store: string, value: T): Promise<IDBValidKey> {
+        return promisify((await objectStore(store, 'readwrite')).put(value))
+    },
+
+    // Writes all values in a single transaction
+    async putMany<T>(store: string, values: T[]): Promise<void> {
+        if (!values.length) return
+        const objects = await objectStore(store, 'readwrite')
+        values.forEach(value => objects.put(value))
+        await transactionDone(objects.transaction)
+    },
+
+    async delete(store: string, key: IDBValidKey): Promise<void> {
+        await promisify((await objectStore(store, 'readwrite')).delete(key))
+    },
+
+    async clear(store: string): Promise<void> {
+        await promisify((await objectStore(store, 'readwrite')).clear())
+    },
+
+    async count(store: string): Promise<number> {
+        return promisify((await objectStore(store, 'readonly')).count())
+    },
+
+    // Deletes the lowest keys so at most `max` records remain. With an
+    // autoIncrement key that is a ring buffer dropping the oldest records.
+    async trim(store: string, max: number): Promise<number> {
+        const objects = await objectStore(store, 'readwrite')
+        const excess = await promisify(objects.count()) - max
+        if (excess <= 0) return 0
+        const keys = await promisify(objects.getAllKeys(null, excess))
+        const last = keys[keys.length - 1]
+        if (last !== undefined) objects.delete(IDBKeyRange.upperBound(last))
+        await transactionDone(objects.transaction)
+        return keys.length
+    },
+}
+
+// Browser storage usage for the whole origin
+export async function getStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+    if (!navigator.storage?.estimate) return null
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+    return { usage, quota }
+}
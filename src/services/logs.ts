@@ -0,0 +1,25 @@
+import { db } from '@/services/db'
+import type { LogEntry } from '@/types'
+
+const STORE = 'logs'
+
+// Log history API (ring buffer of log entries kept in IndexedDB)
+export const logsApi = {
+    async list(): Promise<LogEntry[]> {
+        const entries = await db.getAll<LogEntry>(STORE)
+        return entries.sort((a, b) => (a.id ?? 0) - (b.id ?? 0))
+    },
+
+    async append(entries: LogEntry[]): Promise<void> {
+        await db.putMany(STORE, entries)
+    },
+
+    // Drops the oldest entries beyond the buffer size
+    async trim(max: number): Promise<number> {
+        return await db.trim(STORE, max)
+    },
+
+    async clear(): Promise<void> {
+        await db.clear(STORE)
+    },
+}
@@ -0,0 +1,34 @@
+import { db } from '@/services/db'
+import { streamsApi } from '@/services/api'
+import type { PresetThumbnail } from '@/types'
+
+const STORE = 'presetThumbnails'
+
+function thumbnailId(stream: string, presetId: string): string {
+    return `${stream}/${presetId}`
+}
+
+// Preset thumbnails API (frames of PTZ presets kept in IndexedDB)
+export const presetThumbnailsApi = {
+    async list(stream: string): Promise<PresetThumbnail[]> {
+        const thumbnails = await db.getAll<PresetThumbnail>(STORE)
+        return thumbnails.filter(t => t.stream === stream)
+    },
+
+    // Grab the stream's current frame and store it for the preset
+    async capture(stream: string, presetId: string): Promise<PresetThumbnail> {
+        const thumbnail: PresetThumbnail = {
+            id: thumbnailId(stream, presetId),
+            stream,
+            presetId,
+            capturedAt: Date.now(),
+            blob: await streamsApi.getFrame(stream),
+        }
+        await db.put(STORE, thumbnail)
+        return thumbnail
+    },
+
+    async delete(stream: string, presetId: string): Promise<void> {
+        await db.delete(STORE, thumbnailId(stream, presetId))
+    },
+}
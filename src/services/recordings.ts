@@ -0,0 +1,34 @@
+import { db } from '@/services/db'
+import type { Recording } from '@/types'
+
+const STORE = 'recordings'
+
+// Recordings API (clips and snapshots kept in IndexedDB)
+export const recordingsApi = {
+    async list(): Promise<Recording[]> {
+        const recordings = await db.getAll<Recording>(STORE)
+        return recordings.sort((a, b) => b.createdAt - a.createdAt)
+    },
+
+    async add(recording: Omit<Recording, 'id'>): Promise<number> {
+        return await db.put(STORE, recording) as number
+    },
+
+    async rename(id: number, name: string): Promise<void> {
+        const recording = await db.get<Recording>(STORE, id)
+        if (!recording) throw new Error('Recording not found')
+        await db.put(STORE, { ...recording, name })
+    },
+
+    async delete(id: number): Promise<void> {
+        await db.delete(STORE, id)
+    },
+
+    getFileName(recording: Recording): string {
+        const extension = recording.mimeType.includes('jpeg') ? 'jpg'
+            : recording.mimeType.includes('mp4') ? 'mp4'
+            : 'webm'
+        const safeName = recording.name.replace(/[^\w.-]+/g, '_')
+        return `${safeName}.${extension}`
+    },
+}
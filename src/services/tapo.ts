@@ -50,6 +50,107 @@ export interface TapoStorageInfo {
     status?: string
 }
 
+// Recording schedule. On the wire every weekday is a JSON encoded list of
+// "HHMM-HHMM:type" slots, where type 1 records continuously and type 2 on
+// events (motion, person, ...).
+export type TapoWeekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday'
+
+export const TAPO_WEEKDAYS: TapoWeekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']
+
+export type TapoRecordMode = 'continuous' | 'event'
+
+export interface TapoRecordSlot {
+    start: number   // minutes from midnight
+    end: number     // exclusive, up to 1440
+    mode: TapoRecordMode
+}
+
+export interface TapoRecordPlan {
+    enabled: boolean
+    days: Record<TapoWeekday, TapoRecordSlot[]>
+}
+
+type TapoRecordPlanWire = { enabled?: string } & Partial<Record<TapoWeekday, string>>
+
+const RECORD_TYPES: Record<string, TapoRecordMode> = { '1': 'continuous', '2': 'event' }
+
+function parseClock(text: string): number {
+    return Number(text.slice(0, 2)) * 60 + Number(text.slice(2, 4))
+}
+
+function formatClock(minutes: number): string {
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}${String(minutes % 60).padStart(2, '0')}`
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function parseRecordPlan(data: unknown): TapoRecordPlan {
+    // Accept the raw camera response as well as just the channel object
+    const root = isObject(data) ? data : {}
+    const plan = isObject(root.record_plan) ? root.record_plan : root
+    const wire = isObject(plan.chn1_channel) ? plan.chn1_channel : plan
+    const days = {} as Record<TapoWeekday, TapoRecordSlot[]>
+
+    for (const day of TAPO_WEEKDAYS) {
+        let entries: unknown = []
+        try {
+            const raw = wire[day]
+            entries = typeof raw === 'string' ? JSON.parse(raw) : raw
+        } catch {
+            // Unreadable day, treat as not recording
+        }
+        days[day] = (Array.isArray(entries) ? entries : []).flatMap(entry => {
+            if (typeof entry !== 'string') return []
+            const match = /^(\d{4})-(\d{4}):(\d)$/.exec(entry)
+            const mode = match && RECORD_TYPES[match[3]!]
+            if (!match || !mode) return []
+            return [{ start: parseClock(match[1]!), end: parseClock(match[2]!), mode }]
+        })
+    }
+
+    return { enabled: wire.enabled !== 'off', days }
+}
+
+export function serializeRecordPlan(plan: TapoRecordPlan): TapoRecordPlanWire {
+    const wire: TapoRecordPlanWire = { enabled: plan.enabled ? 'on' : 'off' }
+    for (const day of TAPO_WEEKDAYS) {
+        wire[day] = JSON.stringify(plan.days[day].map(slot =>
+            `${formatClock(slot.start)}-${formatClock(slot.end)}:${slot.mode === 'continuous' ? 1 : 2}`))
+    }
+    return wire
+}
+
+export interface TapoFirmwareInfo {
+    fw_ver?: string
+    latest_ver?: string
+    need_to_upgrade?: boolean
+    release_date?: string
+    release_note?: string
+}
+
+export interface TapoTime {
+    timestamp?: number    // seconds since the epoch, camera clock
+    local_time?: string
+    zone_id?: string
+}
+
+// Clock of the camera, either flat or as the camera's system.clock_status
+export function parseTapoTime(data: unknown): TapoTime {
+    const root = isObject(data) ? data : {}
+    const system = isObject(root.system) ? root.system : {}
+    const clock = isObject(system.clock_status) ? system.clock_status : root
+    const basic = isObject(system.basic) ? system.basic : {}
+    const number = (value: unknown) => typeof value === 'number' ? value : undefined
+    const text = (value: unknown) => typeof value === 'string' ? value : undefined
+    return {
+        timestamp: number(clock.timestamp) ?? number(clock.seconds_from_1970),
+        local_time: text(clock.local_time),
+        zone_id: text(clock.zone_id) ?? text(basic.zone_id),
+    }
+}
+
 export interface TapoMotorCapability {
     pan?: { max: number; min: number }
     tilt?: { max: number; min: number }
@@ -60,15 +161,28 @@ export interface TapoCredentials {
     password: string
 }
 
-// Create a Tapo API service
-export function createTapoApi(baseUrl: string, credentials: TapoCredentials) {
+// Registry entry mapping a go2rtc stream to the Tapo device behind it. The
+// password is kept in the credential vault, not in the entry.
+export interface TapoCamera {
+    stream: string
+    ip: string
+    username: string
+    apiUrl?: string       // gotapo-api URL, the default connection's when empty
+    model?: string        // from getInfo when the mapping was last validated
+    alias?: string
+    validatedAt?: number
+}
+
+// Create a Tapo API service. Without credentials the headers are left to
+// the nginx proxy in front of gotapo-api.
+export function createTapoApi(baseUrl: string, credentials: TapoCredentials | null) {
     const api = axios.create({
         baseURL: baseUrl,
         timeout: 10000,
-        headers: {
+        headers: credentials ? {
             'X-Tapo-Username': credentials.username,
             'X-Tapo-Password': credentials.password,
-        },
+        } : {},
     })
 
     // Log requests
@@ -96,12 +210,12 @@ export function createTapoApi(baseUrl: string, credentials: TapoCredentials) {
             return data
         },
 
-        async getTime(ip: string): Promise<any> {
+        async getTime(ip: string): Promise<TapoTime> {
             const { data } = await api.get(`/api/cameras/${ip}/time`)
-            return data
+            return parseTapoTime(data)
         },
 
-        async getSpecs(ip: string): Promise<any> {
+        async getSpecs(ip: string): Promise<Record<string, unknown>> {
             const { data } = await api.get(`/api/cameras/${ip}/specs`)
             return data
         },
@@ -240,9 +354,14 @@ export function createTapoApi(baseUrl: string, credentials: TapoCredentials) {
         },
 
         // Recording & Storage
-        async getRecordPlan(ip: string): Promise<any> {
+        async getRecordPlan(ip: string): Promise<TapoRecordPlan> {
             const { data } = await api.get(`/api/cameras/${ip}/recording/plan`)
-            return data
+            return parseRecordPlan(data)
+        },
+
+        // Not in gotapo-api yet, see README-gotapo-api.md
+        async setRecordPlan(ip: string, plan: TapoRecordPlan): Promise<void> {
+            await api.put(`/api/cameras/${ip}/recording/plan`, serializeRecordPlan(plan))
         },
 
         async getStorage(ip: string): Promise<TapoStorageInfo> {
@@ -259,7 +378,7 @@ export function createTapoApi(baseUrl: string, credentials: TapoCredentials) {
             await api.post(`/api/cameras/${ip}/reboot`)
         },
 
-        async getFirmware(ip: string): Promise<any> {
+        async getFirmware(ip: string): Promise<TapoFirmwareInfo> {
             const { data } = await api.get(`/api/cameras/${ip}/firmware`)
             return data
         },
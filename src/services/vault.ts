@@ -0,0 +1,85 @@
+// WebCrypto helpers for the credential vault: AES-GCM with a key derived
+// from the user's passphrase by PBKDF2
+
+const ITERATIONS = 310000
+
+export interface EncryptedVault {
+    version: 1
+    salt: string    // base64
+    iv: string      // base64
+    data: string    // base64 AES-GCM ciphertext of the JSON secrets
+}
+
+export type VaultSecrets = Record<string, string>
+
+function toBase64(bytes: Uint8Array): string {
+    let binary = ''
+    for (const byte of bytes) binary += String.fromCharCode(byte)
+    return btoa(binary)
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+    const binary = atob(text)
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+    return bytes
+}
+
+export const vaultCrypto = {
+    isSupported(): boolean {
+        return typeof crypto !== 'undefined' && !!crypto.subtle
+    },
+
+    newSalt(): string {
+        return toBase64(crypto.getRandomValues(new Uint8Array(16)))
+    },
+
+    async deriveKey(passphrase: string, salt: string): Promise<CryptoKey> {
+        const material = await crypto.subtle.importKey(
+            'raw',
+            new TextEncoder().encode(passphrase),
+            'PBKDF2',
+            false,
+            ['deriveKey'],
+        )
+        return crypto.subtle.deriveKey(
+            { name: 'PBKDF2', salt: fromBase64(salt), iterations: ITERATIONS, hash: 'SHA-256' },
+            material,
+            { name: 'AES-GCM', length: 256 },
+            true,
+            ['encrypt', 'decrypt'],
+        )
+    },
+
+    async encrypt(key: CryptoKey, salt: string, secrets: VaultSecrets): Promise<EncryptedVault> {
+        const iv = crypto.getRandomValues(new Uint8Array(12))
+        const data = await crypto.subtle.encrypt(
+            { name: 'AES-GCM', iv },
+            key,
+            new TextEncoder().encode(JSON.stringify(secrets)),
+        )
+        return { version: 1, salt, iv: toBase64(iv), data: toBase64(new Uint8Array(data)) }
+    },
+
+    // Rejects when the key does not match, GCM authentication fails
+    async decrypt(key: CryptoKey, vault: EncryptedVault): Promise<VaultSecrets> {
+        const data = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: fromBase64(vault.iv) },
+            key,
+            fromBase64(vault.data),
+        )
+        return JSON.parse(new TextDecoder().decode(data))
+    },
+
+    // The unlocked key is kept in sessionStorage so a reload does not ask
+    // for the passphrase again until the browser session ends. It is the raw
+    // AES key: while unlocked, anything that can read sessionStorage (an XSS,
+    // a browser extension) can decrypt the vault without the passphrase.
+    async exportKey(key: CryptoKey): Promise<string> {
+        return toBase64(new Uint8Array(await crypto.subtle.exportKey('raw', key)))
+    },
+
+    async importKey(raw: string): Promise<CryptoKey> {
+        return crypto.subtle.importKey('raw', fromBase64(raw), 'AES-GCM', true, ['encrypt', 'decrypt'])
+    },
+}
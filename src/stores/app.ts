@@ -1,7 +1,35 @@
 import { defineStore } from 'pinia'
-import { ref, computed } from 'vue'
-import type { StreamsResponse, PlaybackMode, Theme } from '@/types'
+import { ref, computed, watch } from 'vue'
+import { useDocumentVisibility } from '@vueuse/core'
+import type {
+    StreamsResponse,
+    StreamInfo,
+    PlaybackMode,
+    Theme,
+    WallLayout,
+    StreamHealth,
+    StreamHealthStatus,
+    HealthSettings,
+    Toast,
+} from '@/types'
 import { streamsApi } from '@/services/api'
+import { audited } from '@/services/audit'
+
+const DEFAULT_HEALTH_SETTINGS: HealthSettings = {
+    enabled: true,
+    interval: 5,
+    historyLength: 60,
+    stallSeconds: 15,
+    minBitrate: 1,
+    notify: false,
+}
+
+// How long the toast after a deletion offers to undo it
+const UNDO_GRACE_MS = 10000
+
+function sumBytes(items: { recv?: number; send?: number }[] | undefined, key: 'recv' | 'send'): number {
+    return (items ?? []).reduce((total, item) => total + (item[key] ?? 0), 0)
+}
 
 export const useAppStore = defineStore('app', () => {
     // Theme
@@ -10,12 +38,26 @@ export const useAppStore = defineStore('app', () => {
     // Playback settings
     const playbackMode = ref<PlaybackMode>('webrtc')
     const enabledModes = ref<PlaybackMode[]>(['webrtc', 'mse', 'hls', 'mjpeg'])
+    const mseTargetLatency = ref(1.5)
 
     // Streams
     const streams = ref<StreamsResponse>({})
     const streamsLoading = ref(false)
     const streamsError = ref<string | null>(null)
 
+    // Video wall
+    const wallLayouts = ref<WallLayout[]>([])
+
+    // Health monitor
+    const healthSettings = ref<HealthSettings>({ ...DEFAULT_HEALTH_SETTINGS })
+    const streamHealth = ref<Record<string, StreamHealth>>({})
+    const documentVisibility = useDocumentVisibility()
+    let healthTimer: number | null = null
+
+    // Toasts
+    const toasts = ref<Toast[]>([])
+    let toastId = 0
+
     // Computed
     const streamNames = computed(() => Object.keys(streams.value).sort())
     const streamCount = computed(() => streamNames.value.length)
@@ -25,6 +67,12 @@ export const useAppStore = defineStore('app', () => {
             return stream && (stream.producers?.length > 0 || stream.consumers?.length > 0)
         })
     )
+    const unhealthyStreams = computed(() =>
+        streamNames.value.filter(name => {
+            const status = streamHealth.value[name]?.status
+            return status === 'stalled' || status === 'offline'
+        })
+    )
 
     // Actions
     function toggleTheme() {
@@ -58,6 +106,11 @@ export const useAppStore = defineStore('app', () => {
         localStorage.setItem('enabledModes', JSON.stringify(enabledModes.value))
     }
 
+    function setMseTargetLatency(seconds: number) {
+        mseTargetLatency.value = seconds
+        localStorage.setItem('mseTargetLatency', String(seconds))
+    }
+
     function initPlaybackSettings() {
         const savedMode = localStorage.getItem('playbackMode') as PlaybackMode | null
         if (savedMode) {
@@ -72,6 +125,37 @@ export const useAppStore = defineStore('app', () => {
                 // Keep defaults
             }
         }
+
+        const savedLatency = Number(localStorage.getItem('mseTargetLatency'))
+        if (savedLatency > 0) {
+            mseTargetLatency.value = savedLatency
+        }
+    }
+
+    function saveWallLayout(layout: WallLayout) {
+        const index = wallLayouts.value.findIndex(l => l.name === layout.name)
+        if (index >= 0) {
+            wallLayouts.value.splice(index, 1, layout)
+        } else {
+            wallLayouts.value.push(layout)
+        }
+        localStorage.setItem('wallLayouts', JSON.stringify(wallLayouts.value))
+    }
+
+    function deleteWallLayout(name: string) {
+        wallLayouts.value = wallLayouts.value.filter(l => l.name !== name)
+        localStorage.setItem('wallLayouts', JSON.stringify(wallLayouts.value))
+    }
+
+    function initWallLayouts() {
+        const savedLayouts = localStorage.getItem('wallLayouts')
+        if (savedLayouts) {
+            try {
+                wallLayouts.value = JSON.parse(savedLayouts)
+            } catch (e) {
+                // Keep defaults
+            }
+        }
     }
 
     async function fetchStreams() {
@@ -80,6 +164,7 @@ export const useAppStore = defineStore('app', () => {
 
         try {
             streams.value = await streamsApi.getAll()
+            updateHealth(streams.value)
         } catch (error) {
             streamsError.value = error instanceof Error ? error.message : 'Failed to fetch streams'
         } finally {
@@ -87,34 +172,233 @@ export const useAppStore = defineStore('app', () => {
         }
     }
 
-    async function deleteStream(name: string) {
+    // Source URLs the producers report. Empty for pushed streams (RTSP/RTMP
+    // publish) and when go2rtc cannot be asked.
+    async function streamSources(name: string): Promise<string[]> {
+        const info = await streamsApi.getInfo(name).catch(() => streams.value[name] ?? null)
+        return (info?.producers ?? []).map(p => p.url ?? '').filter(Boolean)
+    }
+
+    // The toast offers to add the stream back from the sources read before
+    // the deletion. Without sources there is nothing to restore.
+    async function deleteStream(name: string, sources: string[]) {
+        await audited('stream.delete', name, () => streamsApi.delete(name), sources.join(' '))
+        await fetchStreams()
+
+        showToast({
+            type: 'info',
+            title: 'Stream deleted',
+            message: name,
+            timeout: sources.length ? UNDO_GRACE_MS : undefined,
+            action: sources.length ? { label: 'Undo', run: () => restoreStream(name, sources) } : undefined,
+        })
+    }
+
+    async function restoreStream(name: string, sources: string[]) {
         try {
-            await streamsApi.delete(name)
+            await audited('stream.restore', name, () => streamsApi.update(name, sources), sources.join(' '))
             await fetchStreams()
+            showToast({ type: 'success', title: 'Stream restored', message: name })
+        } catch (error) {
+            showToast({
+                type: 'error',
+                title: `Failed to restore ${name}`,
+                message: error instanceof Error ? error.message : undefined,
+            })
+        }
+    }
+
+    function showToast(toast: Omit<Toast, 'id' | 'timeout'> & { timeout?: number }): number {
+        const id = ++toastId
+        const timeout = toast.timeout ?? (toast.type === 'error' ? 10000 : 5000)
+        toasts.value.push({ ...toast, id, timeout })
+        if (timeout > 0) setTimeout(() => dismissToast(id), timeout)
+        return id
+    }
+
+    function dismissToast(id: number) {
+        toasts.value = toasts.value.filter(t => t.id !== id)
+    }
+
+    function notifyHealth(name: string, status: StreamHealthStatus, info: StreamInfo | null, previous: StreamHealthStatus) {
+        let type: Toast['type']
+        let title: string
+        let message: string
+
+        if (status === 'offline') {
+            const consumers = info?.consumers?.length ?? 0
+            type = 'error'
+            title = `${name} is offline`
+            message = `The source has no producer while ${consumers} client${consumers === 1 ? ' is' : 's are'} watching`
+        } else if (status === 'stalled') {
+            type = 'warning'
+            title = `${name} stalled`
+            message = `No data received for ${healthSettings.value.stallSeconds}s`
+        } else if (status === 'healthy' && (previous === 'offline' || previous === 'stalled')) {
+            type = 'success'
+            title = `${name} recovered`
+            message = 'The stream is receiving data again'
+        } else {
+            return
+        }
+
+        showToast({ type, title, message })
+
+        if (healthSettings.value.notify && typeof Notification !== 'undefined' &&
+            Notification.permission === 'granted') {
+            new Notification(`go2rtc: ${title}`, { body: message, tag: `go2rtc-health-${name}` })
+        }
+    }
+
+    // Derives bitrate and status for every stream from the byte counters in a
+    // /api/streams response. Streams are only alerted on after a first sample,
+    // so opening the app doesn't raise a burst of alerts.
+    function updateHealth(response: StreamsResponse, now = Date.now()) {
+        const settings = healthSettings.value
+        const next: Record<string, StreamHealth> = {}
+
+        for (const [name, info] of Object.entries(response)) {
+            const previous = streamHealth.value[name]
+            // go2rtc lists configured sources as producers even while nobody
+            // watches; only one with a connection has a bitrate to judge
+            const producers = (info?.producers ?? []).filter(p => p.remote_addr || p.recv !== undefined)
+            const consumers = info?.consumers ?? []
+            const recv = sumBytes(producers, 'recv')
+            const send = sumBytes(consumers, 'send')
+
+            let inbound: number | undefined
+            let outbound: number | undefined
+            if (previous?.lastSampleAt && now > previous.lastSampleAt) {
+                const seconds = (now - previous.lastSampleAt) / 1000
+                // Counters go backwards when a producer or consumer reconnects
+                if (recv >= previous.lastRecv) inbound = (recv - previous.lastRecv) * 8 / seconds / 1000
+                if (send >= previous.lastSend) outbound = (send - previous.lastSend) * 8 / seconds / 1000
+            }
+
+            let zeroSince = previous?.zeroSince ?? null
+            let status: StreamHealthStatus
+            if (!producers.length) {
+                zeroSince = null
+                status = consumers.length ? 'offline' : 'idle'
+            } else if (inbound === undefined) {
+                status = previous?.status === 'stalled' ? 'stalled' : 'healthy'
+            } else if (inbound < settings.minBitrate) {
+                zeroSince ??= now
+                status = now - zeroSince >= settings.stallSeconds * 1000 ? 'stalled' : 'healthy'
+            } else {
+                zeroSince = null
+                status = 'healthy'
+            }
+
+            next[name] = {
+                status,
+                since: previous && previous.status === status ? previous.since : now,
+                inbound: [...(previous?.inbound ?? []), inbound].slice(-settings.historyLength),
+                outbound: [...(previous?.outbound ?? []), outbound].slice(-settings.historyLength),
+                lastRecv: recv,
+                lastSend: send,
+                lastSampleAt: now,
+                zeroSince,
+            }
+
+            if (previous && previous.status !== status) {
+                notifyHealth(name, status, info, previous.status)
+            }
+        }
+
+        streamHealth.value = next
+    }
+
+    async function pollStreams() {
+        try {
+            streams.value = await streamsApi.getAll()
+            streamsError.value = null
+            updateHealth(streams.value)
         } catch (error) {
-            throw error
+            streamsError.value = error instanceof Error ? error.message : 'Failed to fetch streams'
+        }
+    }
+
+    function startHealthMonitor() {
+        stopHealthMonitor()
+        if (!healthSettings.value.enabled || documentVisibility.value === 'hidden') return
+        healthTimer = window.setInterval(pollStreams, healthSettings.value.interval * 1000)
+        pollStreams()
+    }
+
+    function stopHealthMonitor() {
+        if (healthTimer) {
+            clearInterval(healthTimer)
+            healthTimer = null
+        }
+    }
+
+    function setHealthSettings(settings: Partial<HealthSettings>) {
+        healthSettings.value = { ...healthSettings.value, ...settings }
+        localStorage.setItem('healthSettings', JSON.stringify(healthSettings.value))
+        startHealthMonitor()
+    }
+
+    function initHealthMonitor() {
+        const savedSettings = localStorage.getItem('healthSettings')
+        if (savedSettings) {
+            try {
+                healthSettings.value = { ...DEFAULT_HEALTH_SETTINGS, ...JSON.parse(savedSettings) }
+            } catch (e) {
+                // Keep defaults
+            }
         }
+        startHealthMonitor()
     }
 
+    // Polling stops while the tab is hidden. Counters are re-baselined on return
+    // so the gap isn't averaged into one sample or mistaken for a stall.
+    watch(documentVisibility, visibility => {
+        if (visibility === 'hidden') {
+            stopHealthMonitor()
+            return
+        }
+        for (const health of Object.values(streamHealth.value)) {
+            health.lastSampleAt = 0
+            health.zeroSince = null
+        }
+        if (healthSettings.value.enabled) startHealthMonitor()
+    })
+
     return {
         // State
         theme,
         playbackMode,
         enabledModes,
+        mseTargetLatency,
         streams,
         streamsLoading,
         streamsError,
+        wallLayouts,
+        healthSettings,
+        streamHealth,
+        toasts,
         // Computed
         streamNames,
         streamCount,
         onlineStreams,
+        unhealthyStreams,
         // Actions
         toggleTheme,
         initTheme,
         setPlaybackMode,
         togglePlaybackMode,
+        setMseTargetLatency,
         initPlaybackSettings,
+        saveWallLayout,
+        deleteWallLayout,
+        initWallLayouts,
         fetchStreams,
+        streamSources,
         deleteStream,
+        showToast,
+        dismissToast,
+        setHealthSettings,
+        initHealthMonitor,
     }
 })
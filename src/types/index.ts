@@ -53,6 +53,68 @@ export interface StreamsResponse {
 // Playback mode
 export type PlaybackMode = 'webrtc' | 'mse' | 'hls' | 'mjpeg'
 
+// Player mode: a fixed playback mode, or 'auto' to fall back through enabledModes
+export type PlayerMode = PlaybackMode | 'auto'
+
+// Player statistics sample, one per second while the stats overlay is open
+export interface PlayerStatsSample {
+    time: number
+    bitrate?: number        // kbit/s
+    fps?: number
+    width?: number
+    height?: number
+    jitter?: number         // ms
+    packetLoss?: number     // percent over the last interval
+    rtt?: number            // ms
+    candidateType?: string  // host / srflx / prflx / relay
+    buffered?: number       // seconds
+    latency?: number        // seconds behind the live edge
+    droppedFrames?: number
+    hlsLevel?: number
+    bandwidthEstimate?: number  // kbit/s
+}
+
+// Stream health, derived by the monitor from /api/streams byte counters
+export type StreamHealthStatus = 'healthy' | 'idle' | 'stalled' | 'offline'
+
+export interface StreamHealth {
+    status: StreamHealthStatus
+    since: number                     // when the status last changed
+    inbound: (number | undefined)[]   // kbit/s from producer recv, oldest first
+    outbound: (number | undefined)[]  // kbit/s from consumer send
+    lastRecv: number
+    lastSend: number
+    lastSampleAt: number              // 0 forces a new baseline on the next poll
+    zeroSince: number | null
+}
+
+export interface HealthSettings {
+    enabled: boolean
+    interval: number        // seconds between polls
+    historyLength: number   // samples kept per stream
+    stallSeconds: number    // bitrate below minBitrate for this long counts as stalled
+    minBitrate: number      // kbit/s
+    notify: boolean         // browser notifications in addition to toasts
+}
+
+// In-app notification
+export type ToastType = 'success' | 'info' | 'warning' | 'error'
+
+export interface Toast {
+    id: number
+    type: ToastType
+    title: string
+    message?: string
+    timeout: number         // ms, 0 keeps it until dismissed
+    action?: ToastAction
+}
+
+// Button on a toast; the toast is dismissed after it runs
+export interface ToastAction {
+    label: string
+    run: () => void
+}
+
 // WebRTC offer/answer
 export interface RTCOffer {
     type: 'offer'
@@ -88,10 +150,67 @@ export interface Go2RTCConfig {
 
 // Log entry
 export interface LogEntry {
+    id?: number
     level: string
-    time: string
+    time: string      // server time, ISO 8601
     message: string
     caller?: string
+    fields?: Record<string, unknown>
+    gap?: number      // ms without a connection, set on reconnect markers
+}
+
+// Frame captured at a PTZ preset, keyed by stream and preset id
+export interface PresetThumbnail {
+    id: string              // `${stream}/${presetId}`
+    stream: string
+    presetId: string
+    capturedAt: number
+    blob: Blob
+}
+
+// Locally stored clip or snapshot
+export interface Recording {
+    id?: number
+    kind: 'clip' | 'snapshot'
+    stream: string
+    name: string
+    createdAt: number
+    duration: number  // ms, 0 for snapshots
+    size: number
+    mimeType: string
+    blob: Blob
+}
+
+// Saved go2rtc.yaml version kept in the local config history
+export interface ConfigSnapshot {
+    id?: number
+    createdAt: number
+    config: string
+    note: string
+    source: 'save' | 'restart' | 'server' | 'import'
+}
+
+// Mutating action performed from the UI, kept in the local audit trail
+export type AuditAction =
+    | 'stream.add'
+    | 'stream.update'
+    | 'stream.delete'
+    | 'stream.restore'
+    | 'config.save'
+    | 'config.restart'
+    | 'tapo.reboot'
+    | 'tapo.format'
+    | 'tapo.upgrade'
+    | 'tapo.privacy'
+
+export interface AuditEntry {
+    id?: number
+    time: number
+    action: AuditAction
+    target: string          // stream name, camera or "config"
+    outcome: 'success' | 'failure'
+    detail?: string         // what changed, credentials masked
+    error?: string
 }
 
 // Network info
@@ -102,6 +221,17 @@ export interface NetworkInfo {
     flags?: string[]
 }
 
+// Source found by one of go2rtc's discovery endpoints
+export interface DiscoveredSource {
+    name: string
+    url: string         // may be empty for HomeKit accessories that are not paired yet
+    info?: string
+    location?: string
+    id?: string
+}
+
+export type DiscoveryKind = 'onvif' | 'ffmpeg' | 'homekit' | 'hass'
+
 // Source types for add stream
 export interface StreamSource {
     id: string
@@ -113,3 +243,22 @@ export interface StreamSource {
 
 // Theme
 export type Theme = 'dark' | 'light'
+
+// Video wall
+export type WallLayoutType = '1+5' | '2x2' | '3x3' | '4x4'
+
+export interface WallCell {
+    stream: string | null
+    mode: PlayerMode
+}
+
+export interface WallLayout {
+    name: string
+    layout: WallLayoutType
+    cells: WallCell[]
+}
+
+// Where Tapo passwords live: sessionStorage only, encrypted in localStorage
+// behind a passphrase, or nowhere in the browser with the nginx proxy
+// injecting the Tapo headers
+export type VaultMode = 'session' | 'encrypted' | 'proxy'
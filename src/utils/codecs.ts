@@ -0,0 +1,49 @@
+import type { Media } from '@/types'
+
+// Codec strings offered to go2rtc in the MSE request, in order of preference.
+// go2rtc picks the first one matching the stream and answers with a full mime type.
+const MSE_CODECS = [
+    'avc1.640029',       // H.264 High 4.1
+    'avc1.64002A',       // H.264 High 4.2
+    'avc1.640033',       // H.264 High 5.1
+    'avc1.4D401F',       // H.264 Main 3.1
+    'avc1.42E01E',       // H.264 Baseline 3.0
+    'hvc1.1.6.L153.B0',  // H.265 Main 5.1
+    'mp4a.40.2',         // AAC LC
+    'mp4a.40.5',         // AAC HE
+    'flac',
+    'opus',
+]
+
+export function isMSESupported(): boolean {
+    return typeof MediaSource !== 'undefined'
+}
+
+// Codec strings this browser can decode through MediaSource
+export function getSupportedMSECodecs(): string[] {
+    if (!isMSESupported()) return []
+    return MSE_CODECS.filter(codec => MediaSource.isTypeSupported(`video/mp4; codecs="${codec}"`))
+}
+
+// Maps go2rtc codec names and MSE codec strings to a readable label
+export function codecLabel(codec: string): string {
+    const name = codec.toLowerCase()
+    if (name.startsWith('avc1') || name === 'h264') return 'H.264'
+    if (name.startsWith('hvc1') || name.startsWith('hev1') || name === 'h265') return 'H.265'
+    if (name.startsWith('mp4a') || name === 'aac' || name === 'mpeg4-generic') return 'AAC'
+    if (name === 'opus') return 'Opus'
+    if (name === 'flac') return 'FLAC'
+    if (name === 'pcmu' || name === 'pcma') return name.toUpperCase()
+    return codec
+}
+
+// Builds a "codec not supported, try X" message for a stream the browser cannot play via MSE
+export function unsupportedCodecMessage(medias: Media[] | undefined): string {
+    const video = medias?.find(m => m.kind === 'video')?.codec.name
+    const label = video ? codecLabel(video) : 'This stream\'s codec'
+
+    if (label === 'H.265') {
+        return `${label} is not supported by this browser's MSE. Try HLS (Safari), MJPEG, or an H.264 transcode (ffmpeg:<stream>#video=h264).`
+    }
+    return `${label} is not supported by this browser's MSE. Try WebRTC or MJPEG.`
+}
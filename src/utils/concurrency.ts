@@ -0,0 +1,31 @@
+// Run worker over items with at most `limit` calls in flight. Results keep
+// the order of items; a worker that throws rejects only its own entry.
+// Once shouldContinue returns false no new item is started, and the results
+// of items that never started are left undefined.
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    worker: (item: T, index: number) => Promise<R>,
+    shouldContinue: () => boolean = () => true,
+): Promise<(PromiseSettledResult<R> | undefined)[]> {
+    const results: (PromiseSettledResult<R> | undefined)[] = new Array(items.length)
+    let next = 0
+
+    async function lane() {
+        while (next < items.length && shouldContinue()) {
+            const index = next++
+            try {
+                results[index] = { status: 'fulfilled', value: await worker(items[index]!, index) }
+            } catch (reason) {
+                results[index] = { status: 'rejected', reason }
+            }
+        }
+    }
+
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, lane))
+    return results
+}
+
+export function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms))
+}
@@ -0,0 +1,159 @@
+import { parseDocument, isCollection, isMap, isScalar, LineCounter, type Document, type Node } from 'yaml'
+import type { Go2RTCConfig } from '@/types'
+
+export const LOG_LEVELS = ['trace', 'debug', 'info', 'warn', 'error'] as const
+
+export type ConfigPath = (string | number)[]
+
+// A parse error or schema problem, located in the YAML source when possible
+export interface ConfigIssue {
+    message: string
+    line?: number
+    column?: number
+    path?: string
+}
+
+export interface ParsedConfig {
+    config: Go2RTCConfig | null
+    errors: ConfigIssue[]
+    issues: ConfigIssue[]
+}
+
+// ":8555", "0.0.0.0:8555", "[::]:8555", with an optional /tcp or /udp
+// suffix as webrtc.listen accepts
+const LISTEN_PATTERN = /^(?:\[[\da-fA-F:.]*\]|[\w.-]*):(\d{1,5})(?:\/(?:tcp|udp))?$/
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function locate(doc: Document, counter: LineCounter, path: ConfigPath): Pick<ConfigIssue, 'line' | 'column'> {
+    const node = doc.getIn(path, true) as Node | undefined
+    if (!node?.range) return {}
+    const { line, col } = counter.linePos(node.range[0])
+    return { line, column: col }
+}
+
+// Checks the parts of the config the form edits; other keys are passed through untouched
+function validate(config: unknown): { path: ConfigPath; message: string }[] {
+    const problems: { path: ConfigPath; message: string }[] = []
+    const add = (path: ConfigPath, message: string) => problems.push({ path, message })
+
+    if (config === null || config === undefined) return problems
+    if (!isObject(config)) {
+        add([], 'Configuration must be a mapping of sections')
+        return problems
+    }
+
+    for (const section of ['api', 'rtsp', 'webrtc', 'log', 'ffmpeg', 'streams']) {
+        const value = config[section]
+        if (value !== undefined && value !== null && !isObject(value)) {
+            add([section], `"${section}" must be a mapping`)
+        }
+    }
+
+    for (const section of ['api', 'rtsp', 'webrtc']) {
+        const listen = (config[section] as Record<string, unknown> | undefined)?.listen
+        if (listen === undefined || listen === '' || !isObject(config[section])) continue
+        const match = typeof listen === 'string' ? LISTEN_PATTERN.exec(listen) : null
+        if (!match || Number(match[1]) > 65535) {
+            add([section, 'listen'], `${section}.listen must look like ":1984", "host:port" or "[::]:port"`)
+        }
+    }
+
+    const log = config.log
+    if (isObject(log) && log.level !== undefined &&
+        !(LOG_LEVELS as readonly unknown[]).includes(log.level)) {
+        add(['log', 'level'], `log.level must be one of ${LOG_LEVELS.join(', ')}`)
+    }
+
+    const ffmpeg = config.ffmpeg
+    if (isObject(ffmpeg)) {
+        for (const [name, value] of Object.entries(ffmpeg)) {
+            if (typeof value !== 'string') add(['ffmpeg', name], `ffmpeg preset "${name}" must be a string`)
+        }
+    }
+
+    const streams = config.streams
+    if (isObject(streams)) {
+        for (const [name, value] of Object.entries(streams)) {
+            const valid = value === null || typeof value === 'string' ||
+                (Array.isArray(value) && value.every(source => typeof source === 'string'))
+            if (!valid) add(['streams', name], `Stream "${name}" must be a source URL or a list of them`)
+        }
+    }
+
+    const webrtc = config.webrtc
+    if (isObject(webrtc) && webrtc.ice_servers !== undefined) {
+        if (!Array.isArray(webrtc.ice_servers)) {
+            add(['webrtc', 'ice_servers'], 'webrtc.ice_servers must be a list')
+        } else {
+            webrtc.ice_servers.forEach((server: unknown, index: number) => {
+                const urls = isObject(server) ? server.urls : undefined
+                const valid = typeof urls === 'string' ? urls !== ''
+                    : Array.isArray(urls) && urls.length > 0 && urls.every(url => typeof url === 'string')
+                if (!valid) add(['webrtc', 'ice_servers', index], `ICE server #${index + 1} needs at least one URL`)
+            })
+        }
+    }
+
+    return problems
+}
+
+export function parseConfig(text: string): ParsedConfig {
+    const counter = new LineCounter()
+    const doc = parseDocument(text, { lineCounter: counter })
+
+    if (doc.errors.length) {
+        return {
+            config: null,
+            errors: doc.errors.map(e => ({
+                message: e.message.split('\n', 1)[0]!.replace(/ at line \d+, column \d+:?$/, ''),
+                line: e.linePos?.[0].line,
+                column: e.linePos?.[0].col,
+            })),
+            issues: [],
+        }
+    }
+
+    const value: unknown = doc.toJS()
+    const issues = validate(value).map(({ path, message }) => ({
+        message,
+        path: path.join('.'),
+        ...locate(doc, counter, path),
+    }))
+
+    return {
+        config: isObject(value) ? value as Go2RTCConfig : {},
+        errors: [],
+        issues,
+    }
+}
+
+// Sets (or removes, for undefined) a value while keeping comments and key order
+export function setConfigValue(text: string, path: ConfigPath, value: unknown): string {
+    const doc = parseDocument(text)
+    if (value === undefined) {
+        doc.deleteIn(path)
+        // Drop sections left empty by the removal
+        for (let depth = path.length - 1; depth > 0; depth--) {
+            const parent = doc.getIn(path.slice(0, depth), true)
+            if (!isCollection(parent) || parent.items.length > 0) break
+            doc.deleteIn(path.slice(0, depth))
+        }
+    } else {
+        doc.setIn(path, value)
+    }
+    return doc.toString()
+}
+
+// Renames a key in a mapping section without moving it to the end
+export function renameConfigKey(text: string, section: ConfigPath, from: string, to: string): string {
+    const doc = parseDocument(text)
+    const map = doc.getIn(section, true)
+    if (!isMap(map)) return text
+    const pair = map.items.find(item => isScalar(item.key) && item.key.value === from)
+    if (!pair) return text
+    pair.key = doc.createNode(to)
+    return doc.toString()
+}
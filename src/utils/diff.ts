@@ -0,0 +1,108 @@
+export type DiffRowType = 'same' | 'added' | 'removed' | 'changed'
+
+export interface DiffLine {
+    number: number
+    text: string
+}
+
+// One row of a side-by-side diff; a missing side is an insertion or deletion
+export interface DiffRow {
+    type: DiffRowType
+    left: DiffLine | null
+    right: DiffLine | null
+}
+
+export interface DiffStats {
+    added: number
+    removed: number
+    changed: number
+}
+
+type Op = { kind: 'same' | 'removed' | 'added'; left?: number; right?: number }
+
+function splitLines(text: string): string[] {
+    if (text === '') return []
+    return text.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n')
+}
+
+// Line diff based on the longest common subsequence. Common head and tail
+// lines are skipped first so typical edits to a config stay cheap.
+export function diffLines(before: string, after: string): DiffRow[] {
+    const a = splitLines(before)
+    const b = splitLines(after)
+
+    let head = 0
+    while (head < a.length && head < b.length && a[head] === b[head]) head++
+    let tail = 0
+    while (
+        tail < a.length - head && tail < b.length - head &&
+        a[a.length - 1 - tail] === b[b.length - 1 - tail]
+    ) tail++
+
+    const n = a.length - head - tail
+    const m = b.length - head - tail
+    const width = m + 1
+    const lcs = new Uint32Array((n + 1) * width)
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i * width + j] = a[head + i] === b[head + j]
+                ? lcs[(i + 1) * width + j + 1]! + 1
+                : Math.max(lcs[(i + 1) * width + j]!, lcs[i * width + j + 1]!)
+        }
+    }
+
+    const ops: Op[] = []
+    for (let i = 0; i < head; i++) ops.push({ kind: 'same', left: i, right: i })
+
+    let i = 0
+    let j = 0
+    while (i < n || j < m) {
+        if (i < n && j < m && a[head + i] === b[head + j]) {
+            ops.push({ kind: 'same', left: head + i++, right: head + j++ })
+        } else if (j < m && (i >= n || lcs[i * width + j + 1]! >= lcs[(i + 1) * width + j]!)) {
+            ops.push({ kind: 'added', right: head + j++ })
+        } else {
+            ops.push({ kind: 'removed', left: head + i++ })
+        }
+    }
+
+    for (let k = 0; k < tail; k++) {
+        ops.push({ kind: 'same', left: a.length - tail + k, right: b.length - tail + k })
+    }
+
+    const line = (lines: string[], index: number): DiffLine => ({ number: index + 1, text: lines[index]! })
+    const rows: DiffRow[] = []
+    let k = 0
+    while (k < ops.length) {
+        const op = ops[k]!
+        if (op.kind === 'same') {
+            rows.push({ type: 'same', left: line(a, op.left!), right: line(b, op.right!) })
+            k++
+            continue
+        }
+
+        // Pair a block of removals with the additions that follow it
+        const removed: number[] = []
+        const added: number[] = []
+        while (k < ops.length && ops[k]!.kind !== 'same') {
+            const change = ops[k++]!
+            if (change.kind === 'removed') removed.push(change.left!)
+            else added.push(change.right!)
+        }
+        for (let r = 0; r < Math.max(removed.length, added.length); r++) {
+            const left = r < removed.length ? line(a, removed[r]!) : null
+            const right = r < added.length ? line(b, added[r]!) : null
+            rows.push({ type: left && right ? 'changed' : left ? 'removed' : 'added', left, right })
+        }
+    }
+
+    return rows
+}
+
+export function diffStats(rows: DiffRow[]): DiffStats {
+    const stats: DiffStats = { added: 0, removed: 0, changed: 0 }
+    for (const row of rows) {
+        if (row.type !== 'same') stats[row.type]++
+    }
+    return stats
+}
@@ -0,0 +1,101 @@
+// go2rtc ffmpeg: sources, ffmpeg:<input>#video=h264#audio=aac#..., split
+// into the options the stream editor offers and back.
+
+export interface FfmpegSource {
+    input: string
+    inputPreset: string     // #input=, a template from the config's ffmpeg section
+    video: string           // codec or preset, empty to leave it out
+    audio: string
+    width: string
+    height: string
+    rotate: string          // 90, 180 or 270
+    hardware: boolean
+    extra: string[]         // parameters the editor does not know, kept as written
+}
+
+export const FFMPEG_VIDEO_CODECS = [
+    { value: 'copy', label: 'Copy' },
+    { value: 'h264', label: 'H.264' },
+    { value: 'h265', label: 'H.265' },
+    { value: 'mjpeg', label: 'MJPEG' },
+]
+
+export const FFMPEG_AUDIO_CODECS = [
+    { value: 'copy', label: 'Copy' },
+    { value: 'aac', label: 'AAC' },
+    { value: 'opus', label: 'Opus' },
+    { value: 'pcma', label: 'PCMA' },
+    { value: 'pcmu', label: 'PCMU' },
+]
+
+export const FFMPEG_ROTATIONS = ['90', '180', '270']
+
+// Keys of the config's ffmpeg section that are settings, not presets
+const FFMPEG_SETTINGS = ['bin', 'global']
+
+export function isFfmpegSource(url: string): boolean {
+    return url.startsWith('ffmpeg:')
+}
+
+export function emptyFfmpegSource(input = ''): FfmpegSource {
+    return { input, inputPreset: '', video: '', audio: '', width: '', height: '', rotate: '', hardware: false, extra: [] }
+}
+
+export function parseFfmpegSource(url: string): FfmpegSource | null {
+    if (!isFfmpegSource(url)) return null
+    const [input = '', ...params] = url.slice('ffmpeg:'.length).split('#')
+    const source = emptyFfmpegSource(input)
+
+    for (const param of params) {
+        const separator = param.indexOf('=')
+        const key = separator < 0 ? param : param.slice(0, separator)
+        const value = separator < 0 ? '' : param.slice(separator + 1)
+        switch (key) {
+            case 'input':
+            case 'video':
+            case 'audio':
+            case 'width':
+            case 'height':
+            case 'rotate': {
+                const field = key === 'input' ? 'inputPreset' : key
+                // A repeated parameter is kept verbatim rather than merged
+                if (source[field] || !value) source.extra.push(param)
+                else source[field] = value
+                break
+            }
+            case 'hardware':
+                // #hardware=vaapi picks an engine, which the editor leaves alone
+                if (value) source.extra.push(param)
+                else source.hardware = true
+                break
+            default:
+                source.extra.push(param)
+        }
+    }
+    return source
+}
+
+export function buildFfmpegSource(source: FfmpegSource): string {
+    const params = [
+        source.inputPreset && `input=${source.inputPreset}`,
+        source.video && `video=${source.video}`,
+        source.audio && `audio=${source.audio}`,
+        source.width && `width=${source.width}`,
+        source.height && `height=${source.height}`,
+        source.rotate && `rotate=${source.rotate}`,
+        source.hardware && 'hardware',
+        ...source.extra,
+    ].filter(Boolean)
+    return `ffmpeg:${source.input}${params.map(p => `#${p}`).join('')}`
+}
+
+// Whether the options make ffmpeg decode and encode the video, which
+// resizing, rotating and hardware acceleration need
+export function transcodesVideo(source: FfmpegSource): boolean {
+    return !!source.video && source.video !== 'copy'
+}
+
+// Preset names defined in the config's ffmpeg section
+export function ffmpegPresets(section: Record<string, string> | undefined): string[] {
+    return Object.keys(section ?? {}).filter(key => !FFMPEG_SETTINGS.includes(key)).sort()
+}
@@ -0,0 +1,32 @@
+export function formatBytes(bytes: number): string {
+    if (!Number.isFinite(bytes) || bytes <= 0) return '0 B'
+    const units = ['B', 'KB', 'MB', 'GB', 'TB']
+    const exponent = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1)
+    const value = bytes / 1024 ** exponent
+    return `${value.toFixed(exponent === 0 ? 0 : 1)} ${units[exponent]}`
+}
+
+export function formatBitrate(kbps: number): string {
+    return kbps >= 1000 ? `${(kbps / 1000).toFixed(2)} Mbit/s` : `${kbps.toFixed(0)} kbit/s`
+}
+
+// Milliseconds as m:ss (or h:mm:ss)
+export function formatDuration(ms: number): string {
+    const total = Math.floor(ms / 1000)
+    const hours = Math.floor(total / 3600)
+    const minutes = Math.floor((total % 3600) / 60)
+    const seconds = String(total % 60).padStart(2, '0')
+    return hours > 0
+        ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+        : `${minutes}:${seconds}`
+}
+
+// Triggers a browser download for an in-memory file
+export function downloadBlob(blob: Blob, fileName: string) {
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = fileName
+    link.click()
+    setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
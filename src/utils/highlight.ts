@@ -0,0 +1,62 @@
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function token(kind: string, text: string): string {
+    return text ? `<span class="tok-${kind}">${escapeHtml(text)}</span>` : ''
+}
+
+// Index of a trailing "# comment" outside of quotes, or -1
+function commentStart(text: string): number {
+    let quote: string | null = null
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i]
+        if (quote) {
+            if (ch === quote) quote = null
+        } else if (ch === '"' || ch === "'") {
+            quote = ch
+        } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]!))) {
+            return i
+        }
+    }
+    return -1
+}
+
+function highlightValue(value: string): string {
+    const trimmed = value.trim()
+    if (!trimmed) return escapeHtml(value)
+    const lead = value.slice(0, value.indexOf(trimmed))
+    const trail = value.slice(lead.length + trimmed.length)
+
+    let kind = 'value'
+    if (/^(["']).*\1$/.test(trimmed)) kind = 'string'
+    else if (/^-?\d+(\.\d+)?$/.test(trimmed)) kind = 'number'
+    else if (/^(true|false|null|~|yes|no|on|off)$/i.test(trimmed)) kind = 'keyword'
+    else if (/^[|>][-+]?$/.test(trimmed) || /^[&*!]/.test(trimmed)) kind = 'meta'
+
+    return escapeHtml(lead) + token(kind, trimmed) + escapeHtml(trail)
+}
+
+// Highlights YAML line by line into HTML for an editor overlay.
+// This is a lightweight tokenizer for display only, not a parser.
+export function highlightYaml(text: string): string[] {
+    return text.split('\n').map(line => {
+        const hash = commentStart(line)
+        const code = hash === -1 ? line : line.slice(0, hash)
+        const comment = hash === -1 ? '' : line.slice(hash)
+
+        const match = /^(\s*)(-\s+)?([^\s#'"-][^:#]*?|"[^"]*"|'[^']*')(\s*:)(\s|$)/.exec(code)
+        let html: string
+        if (match) {
+            const [whole, indent = '', dash = '', key = '', colon = '', after = ''] = match
+            html = escapeHtml(indent) + token('punct', dash) + token('key', key) +
+                token('punct', colon) + highlightValue(code.slice(whole.length - after.length))
+        } else {
+            const item = /^(\s*)(-\s+|-$)(.*)$/.exec(code)
+            html = item
+                ? escapeHtml(item[1]!) + token('punct', item[2]!) + highlightValue(item[3]!)
+                : /^\s*(---|\.\.\.)\s*$/.test(code) ? token('meta', code) : highlightValue(code)
+        }
+        return html + token('comment', comment)
+    })
+}
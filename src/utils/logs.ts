@@ -0,0 +1,109 @@
+import type { LogEntry } from '@/types'
+
+export const LOG_LEVELS = ['TRACE', 'DEBUG', 'INFO', 'WARN', 'ERROR'] as const
+
+// zerolog keys that map onto LogEntry itself rather than extra fields
+const RESERVED_KEYS = new Set(['level', 'time', 'message', 'msg', 'caller'])
+
+export interface LogFieldFilter {
+    key: string
+    value: string
+}
+
+function toIsoTime(value: unknown): string {
+    if (typeof value === 'number') {
+        // zerolog can emit unix seconds, milliseconds or microseconds
+        const ms = value > 1e14 ? value / 1000 : value > 1e11 ? value : value * 1000
+        return new Date(ms).toISOString()
+    }
+    if (typeof value === 'string') {
+        const date = new Date(value)
+        if (!Number.isNaN(date.getTime())) return date.toISOString()
+    }
+    return new Date().toISOString()
+}
+
+function normalizeLevel(level: unknown): string {
+    const value = typeof level === 'string' ? level.toUpperCase() : ''
+    if (value === 'WARNING') return 'WARN'
+    if (value === 'FATAL' || value === 'PANIC') return 'ERROR'
+    return (LOG_LEVELS as readonly string[]).includes(value) ? value : 'INFO'
+}
+
+// Turns a go2rtc (zerolog) record into a LogEntry. Anything that isn't a JSON
+// object is kept as a plain message stamped with the local time.
+export function parseLogRecord(value: unknown): LogEntry {
+    let record = value
+    if (typeof record === 'string') {
+        try {
+            record = JSON.parse(record)
+        } catch {
+            return { level: 'INFO', time: new Date().toISOString(), message: value as string }
+        }
+    }
+
+    if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+        return { level: 'INFO', time: new Date().toISOString(), message: String(record) }
+    }
+
+    const data = record as Record<string, unknown>
+    const fields: Record<string, unknown> = {}
+    for (const [key, field] of Object.entries(data)) {
+        if (!RESERVED_KEYS.has(key)) fields[key] = field
+    }
+
+    return {
+        level: normalizeLevel(data.level),
+        time: toIsoTime(data.time),
+        message: String(data.message ?? data.msg ?? ''),
+        caller: typeof data.caller === 'string' ? data.caller : undefined,
+        fields: Object.keys(fields).length ? fields : undefined,
+    }
+}
+
+export function formatFieldValue(value: unknown): string {
+    return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+// Local wall-clock time with milliseconds
+export function formatLogTime(time: string): string {
+    const date = new Date(time)
+    if (Number.isNaN(date.getTime())) return time
+    return date.toLocaleTimeString(undefined, { hour12: false }) +
+        '.' + String(date.getMilliseconds()).padStart(3, '0')
+}
+
+// One line in the same shape go2rtc prints to its console
+export function formatLogText(entry: LogEntry): string {
+    const fields = Object.entries(entry.fields ?? {})
+        .map(([key, value]) => `${key}=${formatFieldValue(value)}`)
+        .join(' ')
+    return [entry.time, entry.level, entry.caller && `[${entry.caller}]`, entry.message, fields]
+        .filter(Boolean)
+        .join(' ')
+}
+
+export function toNdjson(entries: LogEntry[]): string {
+    return entries.map(({ id: _id, ...entry }) => JSON.stringify(entry)).join('\n') + '\n'
+}
+
+// "key=value" or "key:value"; a bare word matches the value in any field
+export function parseFieldFilter(text: string): LogFieldFilter | null {
+    const match = /^\s*([\w.-]+)\s*[=:]\s*(.+?)\s*$/.exec(text)
+    if (match) return { key: match[1]!, value: match[2]! }
+    const value = text.trim()
+    return value ? { key: '*', value } : null
+}
+
+export function matchesField(entry: LogEntry, filter: LogFieldFilter): boolean {
+    const needle = filter.value.toLowerCase()
+    const contains = (value: unknown) =>
+        value !== undefined && formatFieldValue(value).toLowerCase().includes(needle)
+
+    if (filter.key === 'caller') return contains(entry.caller)
+    if (filter.key === 'message') return contains(entry.message)
+    if (filter.key !== '*') return contains(entry.fields?.[filter.key])
+
+    return contains(entry.message) || contains(entry.caller) ||
+        Object.values(entry.fields ?? {}).some(contains)
+}
@@ -0,0 +1,209 @@
+import { parse, stringify } from 'yaml'
+import { STREAM_NAME_PATTERN } from '@/utils/sources'
+import type { Go2RTCConfig, StreamsResponse } from '@/types'
+
+// Stream lists in and out of CSV (name,url), a go2rtc streams: block and a
+// Frigate config that restreams through go2rtc.
+
+export type TransferFormat = 'csv' | 'go2rtc' | 'frigate'
+
+export const TRANSFER_FORMATS: { id: TransferFormat; label: string; extension: string; mime: string }[] = [
+    { id: 'csv', label: 'CSV', extension: 'csv', mime: 'text/csv' },
+    { id: 'go2rtc', label: 'go2rtc YAML', extension: 'yaml', mime: 'text/yaml' },
+    { id: 'frigate', label: 'Frigate', extension: 'yml', mime: 'text/yaml' },
+]
+
+export interface ImportRow {
+    name: string
+    sources: string[]
+    error: string | null
+}
+
+// Frigate reaches go2rtc streams through its RTSP restream on 8554
+const RESTREAM_PATTERN = /^rtsp:\/\/(?:127\.0\.0\.1|localhost):8554\/[^/?#]+/i
+const FRIGATE_VARIABLE = /\{FRIGATE_\w+\}/
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function validate(name: string, sources: string[]): string | null {
+    if (!name) return 'No stream name'
+    if (!STREAM_NAME_PATTERN.test(name)) return 'Name may only use letters, digits, dots, dashes and underscores'
+    if (!sources.length) return 'No source'
+    for (const source of sources) {
+        if (/\s/.test(source)) return `Source contains spaces: ${source}`
+        const variable = FRIGATE_VARIABLE.exec(source)
+        if (variable) return `Source uses the Frigate variable ${variable[0]}`
+    }
+    return null
+}
+
+function toRow(name: string, sources: string[]): ImportRow {
+    return { name, sources, error: validate(name, sources) }
+}
+
+// RFC 4180 fields: commas and newlines inside double quotes, "" for a quote
+function csvRecords(text: string): string[][] {
+    const records: string[][] = []
+    let record: string[] = []
+    let field = ''
+    let quoted = false
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i]!
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"'
+                i++
+            } else if (char === '"') {
+                quoted = false
+            } else {
+                field += char
+            }
+        } else if (char === '"') {
+            quoted = true
+        } else if (char === ',') {
+            record.push(field)
+            field = ''
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++
+            record.push(field)
+            records.push(record)
+            record = []
+            field = ''
+        } else {
+            field += char
+        }
+    }
+    if (field || record.length) {
+        record.push(field)
+        records.push(record)
+    }
+    return records.filter(r => r.some(f => f.trim()))
+}
+
+// name,url per line. A header row is optional, and several rows with the
+// same name become one stream with several sources.
+export function parseCsv(text: string): ImportRow[] {
+    const records = csvRecords(text)
+    const first = records[0]?.map(f => f.trim().toLowerCase())
+    if (first?.[0] === 'name' && (first[1] === 'url' || first[1] === 'source')) records.shift()
+
+    const streams = new Map<string, string[]>()
+    for (const [name = '', url = ''] of records) {
+        const key = name.trim()
+        const list = streams.get(key) ?? []
+        if (url.trim()) list.push(url.trim())
+        streams.set(key, list)
+    }
+    return [...streams].map(([name, sources]) => toRow(name, sources))
+}
+
+function sourceList(value: unknown): string[] {
+    if (typeof value === 'string') return [value]
+    if (Array.isArray(value)) return value.filter((s): s is string => typeof s === 'string')
+    return []
+}
+
+function streamsSection(section: unknown): ImportRow[] {
+    if (!isObject(section)) return []
+    return Object.entries(section).map(([name, value]) => toRow(name, sourceList(value)))
+}
+
+// A full go2rtc config or just its streams: mapping
+export function parseGo2rtcYaml(text: string): ImportRow[] {
+    const doc: unknown = parse(text)
+    if (!isObject(doc)) throw new Error('Expected a YAML mapping')
+    return streamsSection('streams' in doc ? doc.streams : doc)
+}
+
+// Streams of Frigate's bundled go2rtc, plus a stream per camera input that
+// does not already go through that restream. A camera with several inputs
+// gets one stream per input, named after the input's first role.
+export function parseFrigate(text: string): ImportRow[] {
+    const doc: unknown = parse(text)
+    if (!isObject(doc)) throw new Error('Expected a YAML mapping')
+    if (!isObject(doc.cameras) && !isObject(doc.go2rtc)) throw new Error('No cameras: or go2rtc: section found')
+
+    const rows = isObject(doc.go2rtc) ? streamsSection(doc.go2rtc.streams) : []
+    const names = new Set(rows.map(r => r.name))
+
+    for (const [camera, config] of Object.entries(isObject(doc.cameras) ? doc.cameras : {})) {
+        const inputs = isObject(config) && isObject(config.ffmpeg) && Array.isArray(config.ffmpeg.inputs)
+            ? config.ffmpeg.inputs.filter(isObject)
+            : []
+        const direct = inputs.filter(input => typeof input.path === 'string' && !RESTREAM_PATTERN.test(input.path))
+
+        direct.forEach((input, index) => {
+            const role = Array.isArray(input.roles) && typeof input.roles[0] === 'string' ? input.roles[0] : String(index + 1)
+            let name = index === 0 ? camera : `${camera}_${role}`
+            for (let n = index + 1; names.has(name); n++) name = `${camera}_${n}`
+            names.add(name)
+            rows.push(toRow(name, [input.path as string]))
+        })
+    }
+    return rows
+}
+
+export function parseStreams(format: TransferFormat, text: string): ImportRow[] {
+    switch (format) {
+        case 'csv': return parseCsv(text)
+        case 'go2rtc': return parseGo2rtcYaml(text)
+        case 'frigate': return parseFrigate(text)
+    }
+}
+
+// Guess the format of a file from its name and contents
+export function detectFormat(fileName: string, text: string): TransferFormat {
+    if (/\.csv$/i.test(fileName)) return 'csv'
+    if (/^cameras:/m.test(text)) return 'frigate'
+    if (/^[\w.-]+:/m.test(text)) return 'go2rtc'
+    return 'csv'
+}
+
+// Sources of every stream: as written in the config where it has them,
+// otherwise as go2rtc reports them for streams added at runtime
+export function currentSources(config: Go2RTCConfig | null, streams: StreamsResponse): Record<string, string[]> {
+    const result: Record<string, string[]> = {}
+    for (const [name, info] of Object.entries(streams)) {
+        const configured = config?.streams?.[name]
+        result[name] = configured !== undefined
+            ? sourceList(configured)
+            : (info?.producers ?? []).map(p => p.url ?? '').filter(Boolean)
+    }
+    return result
+}
+
+function csvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export function exportStreams(format: TransferFormat, streams: Record<string, string[]>): string {
+    const names = Object.keys(streams).sort()
+    switch (format) {
+        case 'csv': {
+            // A stream without known sources still gets a line, with no URL
+            const lines = names.flatMap(name => (streams[name]!.length ? streams[name]! : ['']).map(url =>
+                `${csvField(name)},${csvField(url)}`))
+            return ['name,url', ...lines].join('\n') + '\n'
+        }
+        case 'go2rtc':
+            return stringify({ streams: Object.fromEntries(names.map(name => [name, streams[name]!])) })
+        case 'frigate':
+            // The recommended Frigate setup: go2rtc owns the cameras and
+            // Frigate reads them back through the restream
+            return stringify({
+                go2rtc: { streams: Object.fromEntries(names.map(name => [name, streams[name]!])) },
+                cameras: Object.fromEntries(names.map(name => [name, {
+                    ffmpeg: {
+                        inputs: [{
+                            path: `rtsp://127.0.0.1:8554/${name}`,
+                            input_args: 'preset-rtsp-restream',
+                            roles: ['record', 'detect'],
+                        }],
+                    },
+                }])),
+            })
+    }
+}